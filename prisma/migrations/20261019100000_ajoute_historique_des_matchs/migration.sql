@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "MatchStatus" AS ENUM ('IN_PROGRESS', 'FINISHED');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" SERIAL NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "status" "MatchStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "winnerId" INTEGER,
+    "endReason" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "durationSeconds" INTEGER,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MatchParticipant" (
+    "id" SERIAL NOT NULL,
+    "matchId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "deckId" INTEGER,
+    "deckName" TEXT NOT NULL,
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "isWinner" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "MatchParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MatchEvent" (
+    "id" SERIAL NOT NULL,
+    "matchId" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "turn" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "type" TEXT NOT NULL,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchParticipant_userId_idx" ON "MatchParticipant"("userId");
+
+-- CreateIndex
+CREATE INDEX "MatchParticipant_deckId_idx" ON "MatchParticipant"("deckId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchParticipant_matchId_userId_key" ON "MatchParticipant"("matchId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchEvent_matchId_sequence_key" ON "MatchEvent"("matchId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchParticipant" ADD CONSTRAINT "MatchParticipant_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchParticipant" ADD CONSTRAINT "MatchParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchParticipant" ADD CONSTRAINT "MatchParticipant_deckId_fkey" FOREIGN KEY ("deckId") REFERENCES "Deck"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchEvent" ADD CONSTRAINT "MatchEvent_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchEvent" ADD CONSTRAINT "MatchEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "defense" INTEGER NOT NULL DEFAULT 0;
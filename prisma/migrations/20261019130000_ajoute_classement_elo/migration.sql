@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "ratedGames" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating" INTEGER NOT NULL DEFAULT 1000;
+
+-- CreateTable
+CREATE TABLE "RatingHistory" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "matchId" INTEGER NOT NULL,
+    "ratingBefore" INTEGER NOT NULL,
+    "ratingAfter" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "User_rating_idx" ON "User"("rating");
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_userId_idx" ON "RatingHistory"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingHistory_matchId_userId_key" ON "RatingHistory"("matchId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RatingHistory" ADD CONSTRAINT "RatingHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatingHistory" ADD CONSTRAINT "RatingHistory_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'USER';
+
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "invalidReason" TEXT,
+ADD COLUMN     "isValid" BOOLEAN NOT NULL DEFAULT true;
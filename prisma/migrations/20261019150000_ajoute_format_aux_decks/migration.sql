@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "Rarity" AS ENUM ('COMMON', 'UNCOMMON', 'RARE', 'LEGENDARY');
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "rarity" "Rarity" NOT NULL DEFAULT 'COMMON';
+
+-- CreateTable
+CREATE TABLE "UserCard" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoosterOpening" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "seed" TEXT NOT NULL,
+    "cardIds" INTEGER[],
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BoosterOpening_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserCard_userId_cardId_key" ON "UserCard"("userId", "cardId");
+
+-- CreateIndex
+CREATE INDEX "BoosterOpening_userId_openedAt_idx" ON "BoosterOpening"("userId", "openedAt");
+
+-- AddForeignKey
+ALTER TABLE "UserCard" ADD CONSTRAINT "UserCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserCard" ADD CONSTRAINT "UserCard_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoosterOpening" ADD CONSTRAINT "BoosterOpening_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Les joueurs existants possèdent déjà les cartes de leurs decks
+INSERT INTO "UserCard" ("userId", "cardId", "quantity", "updatedAt")
+SELECT "userId", "cardId", MAX("copies"), CURRENT_TIMESTAMP
+FROM (
+    SELECT d."userId", dc."cardId", COUNT(*) AS "copies"
+    FROM "DeckCard" dc
+    JOIN "Deck" d ON d."id" = dc."deckId"
+    GROUP BY d."id", d."userId", dc."cardId"
+) AS deck_copies
+GROUP BY "userId", "cardId";
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "TradeStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'COUNTERED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TradeSide" AS ENUM ('OFFERED', 'REQUESTED');
+
+-- CreateTable
+CREATE TABLE "Trade" (
+    "id" SERIAL NOT NULL,
+    "proposerId" INTEGER NOT NULL,
+    "recipientId" INTEGER NOT NULL,
+    "status" "TradeStatus" NOT NULL DEFAULT 'PENDING',
+    "message" TEXT,
+    "counterOfId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Trade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TradeItem" (
+    "id" SERIAL NOT NULL,
+    "tradeId" INTEGER NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "TradeItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Trade_counterOfId_key" ON "Trade"("counterOfId");
+
+-- CreateIndex
+CREATE INDEX "Trade_proposerId_status_idx" ON "Trade"("proposerId", "status");
+
+-- CreateIndex
+CREATE INDEX "Trade_recipientId_status_idx" ON "Trade"("recipientId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeItem_tradeId_side_cardId_key" ON "TradeItem"("tradeId", "side", "cardId");
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_proposerId_fkey" FOREIGN KEY ("proposerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_counterOfId_fkey" FOREIGN KEY ("counterOfId") REFERENCES "Trade"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeItem" ADD CONSTRAINT "TradeItem_tradeId_fkey" FOREIGN KEY ("tradeId") REFERENCES "Trade"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeItem" ADD CONSTRAINT "TradeItem_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
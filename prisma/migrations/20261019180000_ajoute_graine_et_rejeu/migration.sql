@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "seed" TEXT;
+
+-- AlterTable
+ALTER TABLE "MatchParticipant" ADD COLUMN     "deckSnapshot" JSONB,
+ADD COLUMN     "seat" INTEGER NOT NULL DEFAULT 0;
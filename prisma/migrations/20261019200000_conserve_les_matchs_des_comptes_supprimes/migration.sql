@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "MatchParticipant" DROP CONSTRAINT "MatchParticipant_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "MatchParticipant" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "MatchParticipant" ADD CONSTRAINT "MatchParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -4,6 +4,8 @@ import { join } from 'path'
 import { prisma } from '../src/database'
 import { CardModel } from '../src/generated/prisma/models/Card'
 import { PokemonType } from '../src/generated/prisma/enums'
+import { getDefaultRarity } from '../src/utils/booster.util'
+import { createRng, randomInt } from '../src/utils/random.util'
 
 async function main() {
   console.log('🌱 Starting database seed...')
@@ -27,6 +29,12 @@ async function main() {
         email: 'blue@example.com',
         password: hashedPassword,
       },
+      {
+        username: 'oak',
+        email: 'oak@example.com',
+        password: hashedPassword,
+        role: 'ADMIN',
+      },
     ],
   })
 
@@ -54,7 +62,9 @@ async function main() {
           name: pokemon.name,
           hp: pokemon.hp,
           attack: pokemon.attack,
+          defense: pokemon.defense,
           type: PokemonType[pokemon.type as keyof typeof PokemonType],
+          rarity: getDefaultRarity(pokemon),
           pokedexNumber: pokemon.pokedexNumber,
           imgUrl: `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/other/official-artwork/${pokemon.pokedexNumber}.png`,
         },
@@ -62,6 +72,9 @@ async function main() {
     ),
   )
 
+  // Graine fixe : le seed produit toujours les mêmes decks
+  const rng = createRng('seed')
+
   // Fonction pour créer un deck avec 10 cartes aléatoires
   await function createDeckRandom(userId: number, deckName: string) {
     // Créer le deck
@@ -78,7 +91,7 @@ async function main() {
     // Sélectionner 10 cartes aléatoires sans répétition
     const selectedCardIds: number[] = []
     while (selectedCardIds.length < 10) {
-      const randomIndex = Math.floor(Math.random() * cardIds.length)
+      const randomIndex = randomInt(rng, cardIds.length)
       const randomCardId = cardIds[randomIndex]
       if (!selectedCardIds.includes(randomCardId)) {
         selectedCardIds.push(randomCardId)
@@ -100,6 +113,15 @@ async function main() {
 
   console.log(`✅ Created ${pokemonData.length} Pokemon cards`)
 
+  // Les comptes de test possèdent un exemplaire de chaque carte
+  await prisma.userCard.createMany({
+    data: [redUser, blueUser].flatMap((user) =>
+      createdCards.map((card) => ({ userId: user.id, cardId: card.id })),
+    ),
+  })
+
+  console.log('✅ Gave one copy of every card to red and blue')
+
   console.log('\n🎉 Database seeding completed!')
 }
 
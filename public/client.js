@@ -21,7 +21,7 @@ async function signIn() {
 
     // Check content type before parsing
     const contentType = response.headers.get('content-type')
-    if (!contentType || !contentType.includes('application/json')) {
+    if (!contentType || !contentType.includes('json')) {
       throw new Error(
         'Server error: Expected JSON response but got HTML. Is the server running?',
       )
@@ -30,7 +30,7 @@ async function signIn() {
     const data = await response.json()
 
     if (!response.ok) {
-      throw new Error(data.message || 'Sign in failed')
+      throw new Error(data.detail || 'Sign in failed')
     }
 
     log(`✅ Signed in successfully! Token received.`, 'received')
@@ -63,7 +63,15 @@ function connectWithToken(token) {
     document.getElementById('disconnectBtn').disabled = false
   })
 
-  socket.on('disconnect', () => {
+  socket.on('disconnect', (reason) => {
+    // Socket.io reconnects by itself unless the disconnection was requested
+    if (socket.active) {
+      log(`Connection lost (${reason}), reconnecting...`, 'error')
+      document.getElementById('status').textContent = 'Reconnecting...'
+      document.getElementById('status').className = 'status disconnected'
+      return
+    }
+
     log('Disconnected', 'error')
     document.getElementById('status').textContent = 'Disconnected'
     document.getElementById('status').className = 'status disconnected'
@@ -104,7 +112,9 @@ function createRoom() {
   const deckId = document.getElementById('createRoomDeckId').value
   if (!deckId) return alert('Deck ID required')
 
-  const data = { deckId }
+  const vsBot = document.getElementById('createRoomVsBot').value
+
+  const data = vsBot ? { deckId, vsBot } : { deckId }
   log(`➡️ createRoom: ${JSON.stringify(data)}`, 'sent')
   socket.emit('createRoom', data)
 }
@@ -120,6 +130,42 @@ function joinRoom() {
   socket.emit('joinRoom', data)
 }
 
+function spectateRoom() {
+  if (!socket) return alert('Not connected')
+  const roomId = document.getElementById('spectateRoomId').value
+  if (!roomId) return alert('Room ID required')
+
+  const data = { roomId }
+  log(`➡️ spectateRoom: ${JSON.stringify(data)}`, 'sent')
+  socket.emit('spectateRoom', data)
+}
+
+function stopSpectating() {
+  if (!socket) return alert('Not connected')
+  const roomId = document.getElementById('spectateRoomId').value
+  if (!roomId) return alert('Room ID required')
+
+  const data = { roomId }
+  log(`➡️ stopSpectating: ${JSON.stringify(data)}`, 'sent')
+  socket.emit('stopSpectating', data)
+}
+
+function queueJoin() {
+  if (!socket) return alert('Not connected')
+  const deckId = document.getElementById('queueDeckId').value
+  if (!deckId) return alert('Deck ID required')
+
+  const data = { deckId }
+  log(`➡️ queueJoin: ${JSON.stringify(data)}`, 'sent')
+  socket.emit('queueJoin', data)
+}
+
+function queueLeave() {
+  if (!socket) return alert('Not connected')
+  log('➡️ queueLeave', 'sent')
+  socket.emit('queueLeave')
+}
+
 // Game events
 function drawCards() {
   if (!socket) return alert('Not connected')
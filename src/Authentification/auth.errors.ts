@@ -0,0 +1,40 @@
+import jwt from 'jsonwebtoken'
+import { UnauthorizedError } from '../errors/app.errors'
+
+/**
+ * Describes why an access token was refused, for the REST API and the sockets alike.
+ * Only the errors of the JWT library and the revoked sessions are authentication failures;
+ * any other error (ex. the database is unreachable) is not the client's fault.
+ * @param {unknown} error - The error raised while verifying the token
+ * @returns {UnauthorizedError | undefined} The error to send to the client, or undefined if the token was not refused
+ */
+export function toAuthenticationError(
+  error: unknown,
+): UnauthorizedError | undefined {
+  if (error instanceof jwt.TokenExpiredError) {
+    return new UnauthorizedError('Authentication token has expired', {
+      code: 'TOKEN_EXPIRED',
+    })
+  }
+  if (error instanceof jwt.JsonWebTokenError) {
+    return new UnauthorizedError('Invalid authentication token', {
+      code: 'TOKEN_INVALID',
+    })
+  }
+  if (error instanceof UnauthorizedError && error.code === 'SESSION_REVOKED') {
+    return new UnauthorizedError('Authentication token has been revoked', {
+      code: 'TOKEN_REVOKED',
+    })
+  }
+  return undefined
+}
+
+/**
+ * Error sent when a request carries no access token.
+ * @returns {UnauthorizedError} The error to send to the client
+ */
+export function missingTokenError(): UnauthorizedError {
+  return new UnauthorizedError('Authentication token is missing', {
+    code: 'TOKEN_MISSING',
+  })
+}
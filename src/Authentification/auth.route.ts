@@ -1,162 +1,198 @@
-import { NextFunction, Request, Response, Router } from 'express'
+import {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+  Router,
+} from 'express'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
 import { prisma } from '../database'
+import { Role } from '../generated/prisma/client'
+import { TokenService } from './token.service'
+import { CollectionService } from '../collection/collection.service'
+import { ForbiddenError, UnauthorizedError } from '../errors/app.errors'
+import { missingTokenError, toAuthenticationError } from './auth.errors'
+import { validateBody } from '../docs/openapi'
 import { env } from '../env'
+import { byIp, rateLimit } from '../rate-limit/rate-limit.middleware'
+import { loginGuard, toAccountKey } from './login.guard'
+import { UserService } from '../user/user.service'
+import { PasswordResetService } from './password-reset.service'
 
 export const authRouter = Router()
 
+// Limite par IP des routes sans authentification (sign-up, sign-in, refresh, mot de passe oublié)
+const authIpLimit = rateLimit({
+  name: 'auth-ip',
+  limit: env.RATE_LIMIT_AUTH_PER_IP,
+  windowMs: env.RATE_LIMIT_AUTH_WINDOW_MS,
+  key: byIp,
+})
+
+// Limite par compte visé, quelle que soit l'IP (à placer après la validation du corps)
+const signInAccountLimit = rateLimit({
+  name: 'sign-in-account',
+  limit: env.RATE_LIMIT_SIGN_IN_PER_ACCOUNT,
+  windowMs: env.RATE_LIMIT_AUTH_WINDOW_MS,
+  key: (req) => toAccountKey(req.body.email),
+})
+
+// Limite par compte des demandes de réinitialisation, pour ne pas inonder une boîte mail
+const forgotPasswordAccountLimit = rateLimit({
+  name: 'forgot-password-account',
+  limit: env.RATE_LIMIT_PASSWORD_RESET_PER_ACCOUNT,
+  windowMs: env.RATE_LIMIT_AUTH_WINDOW_MS,
+  key: (req) => toAccountKey(req.body.email),
+})
+
 /**
  * POST /api/auth/sign-up
  * Creates a new user account with email, username, and password.
- * Hashes the password and generates a JWT token for authentication.
+ * Hashes the password, grants the starter cards and opens a session with a short-lived JWT access token and a refresh token.
  * @param {Request} req - Express request object containing user data in body
  * @param {Response} res - Express response object
- * @returns {Promise<void>} JSON response with token and user info or error
- * @throws {Error} Returns 400 if required fields are missing
- * @throws {Error} Returns 409 if email is already in use
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with tokens and user info or error
+ * @throws {Error} Returns 400 if the body does not match the SignUpInput schema (OpenAPI document)
+ * @throws {Error} Returns 409 if email or username is already in use
+ * @throws {Error} Returns 429 with Retry-After if the IP sent too many requests
  * @throws {Error} Returns 500 for internal server errors
  * @example
  * POST /api/auth/sign-up
  * Body: { "email": "user@example.com", "username": "testuser", "password": "password123" }
- * Response: { "token": "jwt-token", "user": { "id": 1, "email": "user@example.com", "username": "testuser", "createdAt": "2023-01-01T00:00:00.000Z" } }
+ * Response: { "token": "jwt-token", "refreshToken": "opaque-token", "expiresIn": "15m", "user": { "id": 1, "email": "user@example.com", "username": "testuser", "createdAt": "2023-01-01T00:00:00.000Z" } }
  */
-authRouter.post('/sign-up', async (req: Request, res: Response) => {
-  try {
-    const { email, username, password } = req.body
+authRouter.post(
+  '/sign-up',
+  authIpLimit,
+  validateBody('SignUpInput'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email, username, password } = req.body
 
-    // Validation des données
-    if (!email || !username || !password) {
-      return res
-        .status(400)
-        .json({ error: 'Email, username, and password are required' })
-    }
+      // Vérifier que l'email et le nom d'utilisateur sont libres
+      await UserService.assertAvailable({ email, username })
 
-    // Vérifier si l'email est déjà utilisé
-    const existingUser = await prisma.user.findUnique({
-      where: { email },
-    })
+      // Hasher le mot de passe
+      const hashedPassword = await bcrypt.hash(password, 10)
 
-    if (existingUser) {
-      return res.status(409).json({ error: 'Email already in use' })
-    }
+      // Créer l'utilisateur avec ses cartes de départ
+      const user = await prisma.$transaction(async (tx) => {
+        const createdUser = await tx.user.create({
+          data: {
+            email,
+            username,
+            password: hashedPassword,
+          },
+          select: {
+            id: true,
+            email: true,
+            username: true,
+            role: true,
+            createdAt: true,
+          },
+        })
+        await CollectionService.grantStarterCards(createdUser.id, tx)
+        return createdUser
+      })
 
-    // Hasher le mot de passe
-    const hashedPassword = await bcrypt.hash(password, 10)
-
-    // Créer l'utilisateur
-    const user = await prisma.user.create({
-      data: {
-        email,
-        username,
-        password: hashedPassword,
-      },
-      select: {
-        id: true,
-        email: true,
-        username: true,
-        createdAt: true,
-      },
-    })
-
-    // Générer le token JWT (validité 7 jours)
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      env.JWT_SECRET,
-      { expiresIn: '7d' },
-    )
-
-    // Retourner le token et les infos utilisateur
-    res.status(201).json({
-      token,
-      user,
-    })
-    return
-  } catch (error) {
-    console.error('Sign-up error:', error)
-    res.status(500).json({ error: 'Internal server error' })
-    return
-  }
-})
+      // Ouvrir une session : access token court + refresh token
+      const tokens = await TokenService.createSession(user)
+
+      // Retourner les tokens et les infos utilisateur
+      res.status(201).json({
+        ...tokens,
+        user,
+      })
+      return
+    } catch (error) {
+      next(error)
+    }
+  },
+)
 
 /**
  * POST /api/auth/sign-in
  * Authenticates a user with email and password.
- * Verifies credentials and generates a JWT token for authenticated sessions.
+ * Verifies credentials and opens a session with a short-lived JWT access token and a refresh token.
  * @param {Request} req - Express request object containing login credentials in body
  * @param {Response} res - Express response object
- * @returns {Promise<void>} JSON response with token and user info or error
- * @throws {Error} Returns 400 if required fields are missing
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with tokens and user info or error
+ * @throws {Error} Returns 400 if the body does not match the SignInInput schema (OpenAPI document)
  * @throws {Error} Returns 401 if email or password is invalid
+ * @throws {Error} Returns 429 with Retry-After if the IP or the account sent too many attempts, or if the account is locked
  * @throws {Error} Returns 500 for internal server errors
  * @example
  * POST /api/auth/sign-in
  * Body: { "email": "user@example.com", "password": "password123" }
- * Response: { "token": "jwt-token", "user": { "id": 1, "email": "user@example.com", "username": "testuser", "createdAt": "2023-01-01T00:00:00.000Z" } }
+ * Response: { "token": "jwt-token", "refreshToken": "opaque-token", "expiresIn": "15m", "user": { "id": 1, "email": "user@example.com", "username": "testuser", "createdAt": "2023-01-01T00:00:00.000Z" } }
  */
-authRouter.post('/sign-in', async (req: Request, res: Response) => {
-  try {
-    const { email, password } = req.body
+authRouter.post(
+  '/sign-in',
+  authIpLimit,
+  validateBody('SignInInput'),
+  signInAccountLimit,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email, password } = req.body
 
-    // Validation des données
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' })
-    }
+      // Compte verrouillé : on ne vérifie même pas le mot de passe
+      await loginGuard.assertNotLocked(email)
 
-    // Récupérer l'utilisateur par email
-    const user = await prisma.user.findUnique({
-      where: { email },
-    })
+      // Récupérer l'utilisateur par email
+      const user = await prisma.user.findUnique({
+        where: { email },
+      })
 
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid email or password' })
-    }
+      // Vérifier le mot de passe
+      const isPasswordValid =
+        user !== null && (await bcrypt.compare(password, user.password))
 
-    // Vérifier le mot de passe
-    const isPasswordValid = await bcrypt.compare(password, user.password)
+      if (!user || !isPasswordValid) {
+        // Les échecs sont comptés même pour un email inconnu
+        await loginGuard.recordFailure(email)
+        throw new UnauthorizedError('Invalid email or password', {
+          code: 'INVALID_CREDENTIALS',
+        })
+      }
+      await loginGuard.recordSuccess(email)
 
-    if (!isPasswordValid) {
-      return res.status(401).json({ error: 'Invalid email or password' })
-    }
+      // Ouvrir une session : access token court + refresh token
+      const tokens = await TokenService.createSession(user)
 
-    // Générer le token JWT (validité 7 jours)
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      env.JWT_SECRET,
-      { expiresIn: '7d' },
-    )
-
-    // Retourner le token et les infos utilisateur (sans le mot de passe)
-    res.status(200).json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        createdAt: user.createdAt,
-      },
-    })
-    return
-  } catch (error) {
-    console.error('Sign-in error:', error)
-    res.status(500).json({ error: 'Internal server error' })
-    return
-  }
-})
+      // Retourner les tokens et les infos utilisateur (sans le mot de passe)
+      res.status(200).json({
+        ...tokens,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          role: user.role,
+          createdAt: user.createdAt,
+        },
+      })
+      return
+    } catch (error) {
+      next(error)
+    }
+  },
+)
 
 // Étendre le type Request pour ajouter user
 
 /**
  * Middleware to authenticate JWT tokens.
- * Verifies the JWT token from the Authorization header and attaches user info to the request.
+ * Verifies the JWT token from the Authorization header, checks that its session
+ * has not been revoked and attaches user info to the request.
  * @param {Request} req - Express request object with potential Authorization header
- * @param {Response} res - Express response object
+ * @param {Response} _res - Express response object (not used)
  * @param {NextFunction} next - Express next function to continue to the next middleware
- * @throws {Error} Returns 401 if token is missing or invalid
+ * @throws {Error} Returns 401 if token is missing, invalid, expired or revoked
  */
-export const authenticateToken = (
+export const authenticateToken = async (
   req: Request,
-  res: Response,
+  _res: Response,
   next: NextFunction,
 ) => {
   // 1. Récupérer le token depuis l'en-tête Authorization
@@ -164,27 +200,218 @@ export const authenticateToken = (
   const token = authHeader && authHeader.split(' ')[1] // Format: "Bearer TOKEN"
 
   if (!token) {
-    res.status(401).json({ error: 'Token manquant' })
+    next(missingTokenError())
     return
   }
 
   try {
-    // 2. Vérifier et décoder le token
-    const decoded = jwt.verify(token, env.JWT_SECRET) as {
-      userId: number
-      email: string
-    }
+    // 2. Vérifier le token et que sa session n'est pas révoquée
+    const decoded = await TokenService.verifyAccessToken(token)
 
     // 3. Ajouter user à la requête pour l'utiliser dans les routes
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
+      sessionId: decoded.sessionId,
+      role: decoded.role,
     }
-
-    // 4. Passer au prochain middleware ou à la route
-    next()
-  } catch {
-    res.status(401).json({ error: 'Token invalide ou expiré' })
+  } catch (error) {
+    // Une erreur inattendue (base de données...) devient une 500 dans errorHandler
+    next(toAuthenticationError(error) ?? error)
     return
   }
+
+  // 4. Passer au prochain middleware ou à la route
+  next()
 }
+
+/**
+ * Builds a middleware restricting a route to some roles.
+ * Authenticates the request with authenticateToken first, then checks the user's role.
+ * @param {...Role} roles - The roles allowed to access the route
+ * @returns {RequestHandler[]} The authentication and role-checking middlewares
+ * @throws {Error} Returns 401 if token is missing or invalid
+ * @throws {Error} Returns 403 if the user's role is not allowed
+ * @example
+ * cardsRouter.post('/', requireRole(Role.ADMIN), createCard)
+ */
+export const requireRole = (...roles: Role[]): RequestHandler[] => [
+  authenticateToken,
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (!roles.includes(req.user!.role)) {
+      next(
+        new ForbiddenError('Your role does not allow this action', {
+          code: 'ROLE_NOT_ALLOWED',
+        }),
+      )
+      return
+    }
+    next()
+  },
+]
+
+/**
+ * POST /api/auth/refresh
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * Each refresh token can be used only once; reusing a rotated token revokes the whole session.
+ * @param {Request} req - Express request object containing the refresh token in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with new tokens or error
+ * @throws {Error} Returns 400 if the body does not match the RefreshInput schema (OpenAPI document)
+ * @throws {Error} Returns 401 if the refresh token is invalid, expired, revoked or reused
+ * @throws {Error} Returns 429 with Retry-After if the IP sent too many requests
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/auth/refresh
+ * Body: { "refreshToken": "opaque-token" }
+ * Response: { "token": "jwt-token", "refreshToken": "new-opaque-token", "expiresIn": "15m" }
+ */
+authRouter.post(
+  '/refresh',
+  authIpLimit,
+  validateBody('RefreshInput'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { refreshToken } = req.body
+
+      const tokens = await TokenService.rotateRefreshToken(refreshToken)
+
+      res.status(200).json(tokens)
+      return
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * POST /api/auth/forgot-password
+ * Requests a password reset: a single-use, expiring reset token is emailed to the user.
+ * The response is the same whether the email is registered or not.
+ * @param {Request} req - Express request object containing the email in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with a neutral message or error
+ * @throws {Error} Returns 400 if the body does not match the ForgotPasswordInput schema (OpenAPI document)
+ * @throws {Error} Returns 429 with Retry-After if the IP or the email sent too many requests
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/auth/forgot-password
+ * Body: { "email": "user@example.com" }
+ * Response: { "message": "If this email is registered, a reset link has been sent" }
+ */
+authRouter.post(
+  '/forgot-password',
+  authIpLimit,
+  validateBody('ForgotPasswordInput'),
+  forgotPasswordAccountLimit,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await PasswordResetService.requestReset(req.body.email)
+
+      res.status(200).json({
+        message: 'If this email is registered, a reset link has been sent',
+      })
+      return
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * POST /api/auth/reset-password
+ * Sets a new password with a reset token received by email.
+ * The token can be used only once; every session of the user is revoked.
+ * @param {Request} req - Express request object containing the token and the new password in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with success message or error
+ * @throws {Error} Returns 400 if the body is invalid, or if the token is invalid, already used or expired
+ * @throws {Error} Returns 429 with Retry-After if the IP sent too many requests
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/auth/reset-password
+ * Body: { "token": "reset-token", "newPassword": "new-password123" }
+ * Response: { "message": "Password has been reset" }
+ */
+authRouter.post(
+  '/reset-password',
+  authIpLimit,
+  validateBody('ResetPasswordInput'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token, newPassword } = req.body
+
+      await PasswordResetService.resetPassword(token, newPassword)
+
+      res.status(200).json({ message: 'Password has been reset' })
+      return
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * POST /api/auth/logout
+ * Logs out the current session: its access and refresh tokens are revoked.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with success message or error
+ * @throws {Error} Returns 401 if token is missing or invalid
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/auth/logout
+ * Authorization: Bearer <token>
+ * Response: { "message": "Logged out successfully" }
+ */
+authRouter.post(
+  '/logout',
+  authenticateToken,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await TokenService.revokeSession(req.user!.sessionId, req.user!.userId)
+
+      res.status(200).json({ message: 'Logged out successfully' })
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * POST /api/auth/logout-all
+ * Logs out every session of the authenticated user, on all devices.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the number of revoked sessions or error
+ * @throws {Error} Returns 401 if token is missing or invalid
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/auth/logout-all
+ * Authorization: Bearer <token>
+ * Response: { "message": "All sessions logged out", "revokedSessions": 3 }
+ */
+authRouter.post(
+  '/logout-all',
+  authenticateToken,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const revokedSessions = await TokenService.revokeAllSessions(
+        req.user!.userId,
+      )
+
+      res
+        .status(200)
+        .json({ message: 'All sessions logged out', revokedSessions })
+    } catch (error) {
+      next(error)
+    }
+  },
+)
@@ -0,0 +1,115 @@
+import { env } from '../env'
+import { TooManyRequestsError } from '../errors/app.errors'
+import { RateLimitStore, rateLimitStore } from '../rate-limit/rate-limit.store'
+
+/**
+ * Protection des comptes contre la force brute
+ * Après trop d'échecs de connexion, le compte est verrouillé ; chaque nouveau verrouillage
+ * dure deux fois plus longtemps que le précédent, jusqu'à un maximum.
+ */
+
+export interface LoginGuardSettings {
+  // Nombre d'échecs avant verrouillage
+  maxFailures: number
+  // Durée pendant laquelle les échecs sont comptés
+  failureWindowMs: number
+  // Durée du premier verrouillage, doublée à chaque nouveau verrouillage
+  lockoutBaseMs: number
+  lockoutMaxMs: number
+}
+
+// Les verrouillages sont comptés sur 24 h pour allonger les suivants
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000
+
+const DEFAULT_SETTINGS: LoginGuardSettings = {
+  maxFailures: env.LOGIN_MAX_FAILURES,
+  failureWindowMs: env.RATE_LIMIT_AUTH_WINDOW_MS,
+  lockoutBaseMs: env.LOGIN_LOCKOUT_BASE_MS,
+  lockoutMaxMs: env.LOGIN_LOCKOUT_MAX_MS,
+}
+
+/**
+ * Normalizes the account a sign-in targets, so that "Red@Example.com " and "red@example.com" share their counters.
+ * @param {string} email - The email sent by the client
+ * @returns {string} The normalized account
+ */
+export const toAccountKey = (email: string) => email.trim().toLowerCase()
+
+export class LoginGuard {
+  constructor(
+    private readonly store: RateLimitStore = rateLimitStore,
+    private readonly settings: LoginGuardSettings = DEFAULT_SETTINGS,
+  ) {}
+
+  /**
+   * Rejects the sign-in of a locked account, before the password is checked.
+   * @param {string} email - The email of the account
+   * @returns {Promise<void>} Resolves if the account is not locked
+   * @throws {TooManyRequestsError} If the account is locked, with the remaining delay
+   */
+  async assertNotLocked(email: string): Promise<void> {
+    const lock = await this.store.get(`login-lock:${toAccountKey(email)}`)
+    if (lock) {
+      throw new TooManyRequestsError(
+        'Too many failed sign-in attempts, account temporarily locked',
+        {
+          code: 'ACCOUNT_LOCKED',
+          retryAfter: Math.ceil((lock.resetAt - Date.now()) / 1000),
+        },
+      )
+    }
+  }
+
+  /**
+   * Records a failed sign-in; the account is locked once the failures reach the limit.
+   * @param {string} email - The email of the account
+   * @returns {Promise<number>} The duration of the new lockout in milliseconds, 0 if the account is not locked
+   */
+  async recordFailure(email: string): Promise<number> {
+    const account = toAccountKey(email)
+    const failures = await this.store.increment(
+      `login-failures:${account}`,
+      this.settings.failureWindowMs,
+    )
+    if (failures.count < this.settings.maxFailures) {
+      return 0
+    }
+
+    // Verrouillage : sa durée double à chaque fois
+    await this.store.reset(`login-failures:${account}`)
+    const lockouts = await this.store.increment(
+      `login-lockouts:${account}`,
+      LOCKOUT_MEMORY_MS,
+    )
+    const duration = Math.min(
+      this.settings.lockoutBaseMs * 2 ** (lockouts.count - 1),
+      this.settings.lockoutMaxMs,
+    )
+    await this.store.reset(`login-lock:${account}`)
+    await this.store.increment(`login-lock:${account}`, duration)
+    return duration
+  }
+
+  /**
+   * Forgets the failures and lockouts of an account after a successful sign-in.
+   * @param {string} email - The email of the account
+   * @returns {Promise<void>} Resolves once the counters are deleted
+   */
+  async recordSuccess(email: string): Promise<void> {
+    const account = toAccountKey(email)
+    await this.store.reset(`login-failures:${account}`)
+    await this.store.reset(`login-lockouts:${account}`)
+  }
+
+  /**
+   * Lifts the lockout of an account and forgets its failures, ex. after a password reset.
+   * @param {string} email - The email of the account
+   * @returns {Promise<void>} Resolves once the lock and the counters are deleted
+   */
+  async unlock(email: string): Promise<void> {
+    await this.recordSuccess(email)
+    await this.store.reset(`login-lock:${toAccountKey(email)}`)
+  }
+}
+
+export const loginGuard = new LoginGuard()
@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { prisma } from '../database'
+import { env } from '../env'
+import { ValidationError } from '../errors/app.errors'
+import { mailTransport } from '../mail/mail.transport'
+import { loginGuard } from './login.guard'
+import { TokenService } from './token.service'
+
+// Même réponse pour un token inconnu ou déjà utilisé
+const invalidResetToken = () =>
+  ValidationError.forField(
+    'token',
+    'Invalid reset token',
+    'RESET_TOKEN_INVALID',
+  )
+
+export class PasswordResetService {
+  /**
+   * Issues a password reset token and emails it to the user.
+   * The token is single-use, expires after PASSWORD_RESET_TTL_MINUTES and only its hash is stored;
+   * a new request replaces the previous tokens of the user.
+   * Nothing happens for an unknown email, so the caller cannot tell whether it is registered.
+   * @param {string} email - The email the reset is requested for
+   * @returns {Promise<void>} Resolves once the token is stored (the email is sent in the background)
+   */
+  static async requestReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true },
+    })
+    if (!user) {
+      return
+    }
+
+    const token = randomBytes(32).toString('base64url')
+    const expiresAt = new Date(
+      Date.now() + env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+    )
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({ where: { userId: user.id } }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: TokenService.hashToken(token),
+          expiresAt,
+        },
+      }),
+    ])
+
+    // Un échec d'envoi ne doit pas changer la réponse (sinon l'email serait révélé)
+    mailTransport
+      .send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hello ${user.username},`,
+          '',
+          'A password reset was requested for your account. Open this link to choose a new password:',
+          `${env.PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`,
+          '',
+          `The link expires in ${env.PASSWORD_RESET_TTL_MINUTES} minutes and can be used once.`,
+          'If you did not request it, you can ignore this email.',
+        ].join('\n'),
+      })
+      .catch((error) => console.error('Password reset mail error:', error))
+  }
+
+  /**
+   * Consumes a password reset token and sets the new password.
+   * Every session of the user is revoked and the sign-in lockout of the account is lifted.
+   * @param {string} token - The reset token received by email
+   * @param {string} newPassword - The new password
+   * @returns {Promise<void>} Resolves once the password is changed
+   * @throws {ValidationError} If the token is unknown, already used or expired
+   */
+  static async resetPassword(token: string, newPassword: string) {
+    const stored = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: TokenService.hashToken(token) },
+      include: { user: { select: { email: true } } },
+    })
+
+    if (!stored || stored.usedAt) {
+      throw invalidResetToken()
+    }
+    if (stored.expiresAt <= new Date()) {
+      throw ValidationError.forField(
+        'token',
+        'Reset token has expired',
+        'RESET_TOKEN_EXPIRED',
+      )
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 10)
+    const consumed = await prisma.$transaction(async (tx) => {
+      // La condition sur usedAt empêche deux utilisations concurrentes du même token
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() },
+      })
+      if (count === 0) {
+        return false
+      }
+      await tx.user.update({
+        where: { id: stored.userId },
+        data: { password: passwordHash },
+      })
+      return true
+    })
+    if (!consumed) {
+      throw invalidResetToken()
+    }
+
+    await TokenService.revokeAllSessions(stored.userId)
+    await loginGuard.unlock(stored.user.email)
+  }
+}
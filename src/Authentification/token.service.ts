@@ -0,0 +1,230 @@
+import { createHash, randomBytes } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { prisma } from '../database'
+import { env } from '../env'
+import { UnauthorizedError } from '../errors/app.errors'
+import { Role } from '../generated/prisma/client'
+
+export interface AuthTokens {
+  token: string
+  refreshToken: string
+  expiresIn: string
+}
+
+export interface AccessTokenPayload {
+  userId: number
+  email: string
+  sessionId: string
+  role: Role
+}
+
+export class TokenService {
+  /**
+   * Hashes a refresh token before it is stored or looked up.
+   * Refresh tokens are long random values, so a fast hash is enough.
+   * @param {string} token - The refresh token sent to the client
+   * @returns {string} The SHA-256 hash of the token
+   */
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  /**
+   * Signs a short-lived access token bound to a session.
+   * @param {object} user - The user the token is issued to
+   * @param {string} sessionId - The session (refresh token family) of the token
+   * @returns {string} The signed JWT
+   */
+  static signAccessToken(
+    user: { id: number; email: string },
+    sessionId: string,
+  ): string {
+    return jwt.sign(
+      { userId: user.id, email: user.email, sid: sessionId },
+      env.JWT_SECRET,
+      { expiresIn: env.ACCESS_TOKEN_TTL },
+    )
+  }
+
+  /**
+   * Stores a new hashed refresh token in a session.
+   * @param {string} sessionId - The session the token belongs to
+   * @param {object} [client] - Optional Prisma transaction client
+   * @returns {Promise<string>} The clear refresh token, to send to the client only
+   */
+  private static async issueRefreshToken(
+    sessionId: string,
+    client: Pick<typeof prisma, 'refreshToken'> = prisma,
+  ): Promise<string> {
+    const refreshToken = randomBytes(48).toString('base64url')
+    const expiresAt = new Date(
+      Date.now() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+    )
+
+    await client.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: TokenService.hashToken(refreshToken),
+        expiresAt,
+      },
+    })
+    return refreshToken
+  }
+
+  /**
+   * Opens a new session for a user after sign-up or sign-in.
+   * @param {object} user - The authenticated user
+   * @returns {Promise<AuthTokens>} The access token and the first refresh token of the session
+   */
+  static async createSession(user: {
+    id: number
+    email: string
+  }): Promise<AuthTokens> {
+    const session = await prisma.authSession.create({
+      data: { userId: user.id },
+    })
+
+    return {
+      token: TokenService.signAccessToken(user, session.id),
+      refreshToken: await TokenService.issueRefreshToken(session.id),
+      expiresIn: env.ACCESS_TOKEN_TTL,
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token.
+   * A refresh token can be used only once: presenting an already rotated token
+   * means it leaked, so the whole session (token family) is revoked.
+   * @param {string} refreshToken - The refresh token sent by the client
+   * @returns {Promise<AuthTokens>} The new access and refresh tokens
+   * @throws {UnauthorizedError} If the token is unknown, expired, revoked or reused
+   */
+  static async rotateRefreshToken(refreshToken: string): Promise<AuthTokens> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: TokenService.hashToken(refreshToken) },
+      include: { session: { include: { user: true } } },
+    })
+
+    if (!stored) {
+      throw new UnauthorizedError('Invalid refresh token', {
+        code: 'REFRESH_TOKEN_INVALID',
+      })
+    }
+    if (stored.session.revokedAt) {
+      throw new UnauthorizedError('Session has been revoked', {
+        code: 'SESSION_REVOKED',
+      })
+    }
+    if (stored.rotatedAt) {
+      await TokenService.revokeSession(stored.sessionId)
+      throw new UnauthorizedError(
+        'Refresh token reuse detected, session revoked',
+        { code: 'REFRESH_TOKEN_REUSED' },
+      )
+    }
+    if (stored.expiresAt <= new Date()) {
+      throw new UnauthorizedError('Refresh token has expired', {
+        code: 'REFRESH_TOKEN_EXPIRED',
+      })
+    }
+
+    const newRefreshToken = await prisma.$transaction(async (tx) => {
+      // La condition sur rotatedAt empêche deux rotations concurrentes du même token
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: stored.id, rotatedAt: null },
+        data: { rotatedAt: new Date() },
+      })
+      if (count === 0) {
+        return null
+      }
+      return await TokenService.issueRefreshToken(stored.sessionId, tx)
+    })
+
+    if (!newRefreshToken) {
+      await TokenService.revokeSession(stored.sessionId)
+      throw new UnauthorizedError(
+        'Refresh token reuse detected, session revoked',
+        { code: 'REFRESH_TOKEN_REUSED' },
+      )
+    }
+
+    return {
+      token: TokenService.signAccessToken(
+        stored.session.user,
+        stored.sessionId,
+      ),
+      refreshToken: newRefreshToken,
+      expiresIn: env.ACCESS_TOKEN_TTL,
+    }
+  }
+
+  /**
+   * Revokes a session: its access and refresh tokens stop being accepted.
+   * @param {string} sessionId - The session to revoke
+   * @param {number} [userId] - When given, only a session of this user is revoked
+   * @returns {Promise<void>} Resolves when the session is revoked
+   */
+  static async revokeSession(sessionId: string, userId?: number) {
+    await prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+  }
+
+  /**
+   * Revokes every active session of a user ("log out everywhere").
+   * @param {number} userId - The ID of the user
+   * @param {string} [exceptSessionId] - A session to keep active (ex. the current one)
+   * @returns {Promise<number>} The number of sessions revoked
+   */
+  static async revokeAllSessions(userId: number, exceptSessionId?: string) {
+    const { count } = await prisma.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    })
+    return count
+  }
+
+  /**
+   * Verifies an access token: signature, expiry and that its session is still active.
+   * The role is read from the database, so a role change applies without a new token.
+   * @param {string} token - The JWT sent by the client
+   * @returns {Promise<AccessTokenPayload>} The user, role and session of the token
+   * @throws {jwt.JsonWebTokenError} If the signature is invalid or the token expired
+   * @throws {UnauthorizedError} If the token has no session or its session was revoked
+   */
+  static async verifyAccessToken(token: string): Promise<AccessTokenPayload> {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as {
+      userId: number
+      email: string
+      sid?: string
+    }
+
+    if (!decoded.sid) {
+      throw new UnauthorizedError('Session has been revoked', {
+        code: 'SESSION_REVOKED',
+      })
+    }
+
+    const session = await prisma.authSession.findUnique({
+      where: { id: decoded.sid },
+      select: { revokedAt: true, user: { select: { role: true } } },
+    })
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedError('Session has been revoked', {
+        code: 'SESSION_REVOKED',
+      })
+    }
+
+    return {
+      userId: decoded.userId,
+      email: decoded.email,
+      sessionId: decoded.sid,
+      role: session.user.role,
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import { Request } from 'express'
+import { FieldError } from '../errors/app.errors'
+import { PokemonType, Prisma } from '../generated/prisma/client'
+
+/**
+ * Lecture et validation des paramètres de recherche de GET /api/cards
+ */
+
+export const SORTABLE_FIELDS = [
+  'id',
+  'hp',
+  'attack',
+  'defense',
+  'pokedexNumber',
+] as const
+export const DEFAULT_LIMIT = 20
+export const MAX_LIMIT = 100
+
+type SortableField = (typeof SORTABLE_FIELDS)[number]
+
+export type CardPagination =
+  | { mode: 'page'; page: number; limit: number }
+  | { mode: 'cursor'; cursor: number | null; limit: number }
+
+export interface CardQuery {
+  where: Prisma.CardWhereInput
+  orderBy: Prisma.CardOrderByWithRelationInput[]
+  pagination: CardPagination | null
+}
+
+export type CardQueryResult =
+  | { errors: FieldError[]; query?: undefined }
+  | { errors: []; query: CardQuery }
+
+/**
+ * Returns the single string value of a query parameter.
+ * @param {unknown} value - The raw query value
+ * @returns {string | undefined} The value, or undefined if absent
+ */
+function single(value: unknown): string | undefined {
+  if (value === undefined) return undefined
+  return Array.isArray(value) ? String(value[value.length - 1]) : String(value)
+}
+
+/**
+ * Parses an integer query parameter and records an error if it is invalid.
+ * @param {string} name - The parameter name, used in error messages
+ * @param {unknown} raw - The raw query value
+ * @param {number} min - The smallest accepted value
+ * @param {FieldError[]} errors - The error list to append to
+ * @returns {number | undefined} The parsed value, or undefined if absent or invalid
+ */
+function parseInteger(
+  name: string,
+  raw: unknown,
+  min: number,
+  errors: FieldError[],
+): number | undefined {
+  const value = single(raw)
+  if (value === undefined) return undefined
+
+  const parsed = Number(value)
+  if (value.trim() === '' || !Number.isInteger(parsed) || parsed < min) {
+    errors.push({
+      field: name,
+      message: `${name} must be an integer greater than or equal to ${min}`,
+    })
+    return undefined
+  }
+  return parsed
+}
+
+/**
+ * Finds the PokemonType matching a value, case-insensitive.
+ * @param {string} value - The type name sent by the client
+ * @returns {PokemonType | undefined} The matching type, or undefined if it does not exist
+ */
+export function parsePokemonType(value: string): PokemonType | undefined {
+  return Object.values(PokemonType).find(
+    (candidate) => candidate.toLowerCase() === value.toLowerCase(),
+  )
+}
+
+/**
+ * Parses the PokemonType filter. Accepts repeated parameters and comma separated values, case-insensitive.
+ * @param {unknown} raw - The raw `type` query value
+ * @param {FieldError[]} errors - The error list to append to
+ * @returns {PokemonType[] | undefined} The requested types, or undefined if absent
+ */
+function parseTypes(
+  raw: unknown,
+  errors: FieldError[],
+): PokemonType[] | undefined {
+  if (raw === undefined) return undefined
+
+  const values = (Array.isArray(raw) ? raw : [raw])
+    .flatMap((value) => String(value).split(','))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+
+  const types: PokemonType[] = []
+  for (const value of values) {
+    const type = parsePokemonType(value)
+    if (!type) {
+      errors.push({
+        field: 'type',
+        message: `type "${value}" is not a valid PokemonType (expected one of: ${Object.values(PokemonType).join(', ')})`,
+      })
+      continue
+    }
+    types.push(type)
+  }
+
+  if (values.length === 0) {
+    errors.push({ field: 'type', message: 'type must not be empty' })
+  }
+  return types
+}
+
+/**
+ * Builds an inclusive numeric range filter and checks min is not above max.
+ * @param {string} name - The field name, used in error messages
+ * @param {number | undefined} min - The lower bound
+ * @param {number | undefined} max - The upper bound
+ * @param {FieldError[]} errors - The error list to append to
+ * @returns {Prisma.IntFilter | undefined} The filter, or undefined if no bound is set
+ */
+function range(
+  name: string,
+  min: number | undefined,
+  max: number | undefined,
+  errors: FieldError[],
+): Prisma.IntFilter | undefined {
+  if (min === undefined && max === undefined) return undefined
+  if (min !== undefined && max !== undefined && min > max) {
+    errors.push({
+      field: `${name}Min`,
+      message: `${name}Min must be less than or equal to ${name}Max`,
+    })
+  }
+  return { gte: min, lte: max }
+}
+
+/**
+ * Parses and validates the query parameters of GET /api/cards.
+ * Every invalid parameter is reported, not only the first one.
+ * @param {Request['query']} raw - The Express query object
+ * @returns {CardQueryResult} The Prisma query parts, or the list of errors
+ * @example
+ * parseCardQuery({ type: 'Fire,Water', hpMin: '50', sort: 'attack', order: 'desc', page: '2', limit: '10' })
+ */
+export function parseCardQuery(raw: Request['query']): CardQueryResult {
+  const errors: FieldError[] = []
+  const where: Prisma.CardWhereInput = {}
+
+  // Filtres
+  const types = parseTypes(raw.type, errors)
+  if (types && types.length > 0) {
+    where.type = { in: types }
+  }
+
+  const name = single(raw.name)?.trim()
+  if (name) {
+    where.name = { contains: name, mode: 'insensitive' }
+  }
+
+  const hp = range(
+    'hp',
+    parseInteger('hpMin', raw.hpMin, 0, errors),
+    parseInteger('hpMax', raw.hpMax, 0, errors),
+    errors,
+  )
+  if (hp) where.hp = hp
+
+  const attack = range(
+    'attack',
+    parseInteger('attackMin', raw.attackMin, 0, errors),
+    parseInteger('attackMax', raw.attackMax, 0, errors),
+    errors,
+  )
+  if (attack) where.attack = attack
+
+  // Tri (l'id départage les égalités pour une pagination stable)
+  const sort = single(raw.sort) ?? 'pokedexNumber'
+  if (!SORTABLE_FIELDS.includes(sort as SortableField)) {
+    errors.push({
+      field: 'sort',
+      message: `sort must be one of: ${SORTABLE_FIELDS.join(', ')}`,
+    })
+  }
+  const order = (single(raw.order) ?? 'asc').toLowerCase()
+  if (order !== 'asc' && order !== 'desc') {
+    errors.push({ field: 'order', message: 'order must be "asc" or "desc"' })
+  }
+  const orderBy: Prisma.CardOrderByWithRelationInput[] = [
+    { [sort]: order as Prisma.SortOrder },
+  ]
+  if (sort !== 'id') {
+    orderBy.push({ id: 'asc' })
+  }
+
+  // Pagination
+  let pagination: CardPagination | null = null
+  const page = parseInteger('page', raw.page, 1, errors)
+  const limit = parseInteger('limit', raw.limit, 1, errors)
+  // Un curseur vide demande la première page en mode curseur
+  const rawCursor = single(raw.cursor)
+  const cursor =
+    rawCursor === '' ? undefined : parseInteger('cursor', rawCursor, 1, errors)
+  if (limit !== undefined && limit > MAX_LIMIT) {
+    errors.push({
+      field: 'limit',
+      message: `limit must be less than or equal to ${MAX_LIMIT}`,
+    })
+  }
+
+  if (page !== undefined && rawCursor !== undefined) {
+    errors.push({
+      field: 'cursor',
+      message: 'page and cursor cannot be used together',
+    })
+  } else if (rawCursor !== undefined) {
+    pagination = {
+      mode: 'cursor',
+      cursor: cursor ?? null,
+      limit: limit ?? DEFAULT_LIMIT,
+    }
+  } else if (page !== undefined || limit !== undefined) {
+    pagination = {
+      mode: 'page',
+      page: page ?? 1,
+      limit: limit ?? DEFAULT_LIMIT,
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+  return { errors: [], query: { where, orderBy, pagination } }
+}
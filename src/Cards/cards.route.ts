@@ -1,32 +1,432 @@
-import { Request, Response, Router } from 'express'
+import { NextFunction, Request, Response, Router } from 'express'
 import { prisma } from '../database'
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/app.errors'
+import { requireRole } from '../Authentification/auth.route'
+import { Role, TradeStatus } from '../generated/prisma/client'
+import { calculateDamage, getDamageMultiplier } from '../utils/rules.util'
+import { parseCardQuery } from './cards.query'
+import { parseCardInput } from './cards.validation'
 
 export const cardsRouter = Router()
 
 /**
  * GET /api/cards
- * Retrieves all cards from the database, sorted by Pokedex number.
- * @param {Request} _req - Express request object (not used)
+ * Retrieves cards from the database, sorted by Pokedex number by default.
+ * Supports filtering, name search, sorting and pagination through query parameters:
+ * - `type`: one or several PokemonType values (repeated or comma separated)
+ * - `name`: case-insensitive substring of the card name
+ * - `hpMin`, `hpMax`, `attackMin`, `attackMax`: inclusive ranges
+ * - `sort` (id, hp, attack, defense, pokedexNumber) and `order` (asc, desc)
+ * - `page` and `limit`, or `cursor` (last card ID seen, empty for the first page) and `limit`
+ * Without pagination parameters, the full filtered list is returned as an array.
+ * With pagination, the response is an object with the page of cards and the total count.
+ * @param {Request} req - Express request object with optional query parameters
  * @param {Response} res - Express response object
- * @returns {Promise<void>} JSON response with array of cards or error
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with cards or error
+ * @throws {Error} Returns 400 with the list of invalid parameters
  * @throws {Error} Returns 500 for internal server errors
  * @example
  * GET /api/cards
  * Response: [{ "id": 1, "name": "Bulbasaur", "pokedexNumber": 1, ... }, ...]
+ * @example
+ * GET /api/cards?type=Fire,Water&hpMin=50&sort=attack&order=desc&page=1&limit=10
+ * Response: { "data": [...], "total": 23, "page": 1, "limit": 10, "totalPages": 3 }
+ * @example
+ * GET /api/cards?cursor=&limit=10
+ * Response: { "data": [...], "total": 151, "limit": 10, "nextCursor": 10 }
+ */
+cardsRouter.get(
+  '/',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { errors, query } = parseCardQuery(req.query)
+      if (!query) {
+        throw new ValidationError('Invalid query parameters', { errors })
+      }
+
+      const { where, orderBy, pagination } = query
+
+      // Sans pagination : liste complète (comportement historique)
+      if (!pagination) {
+        const cards = await prisma.card.findMany({ where, orderBy })
+        res.status(200).json(cards)
+        return
+      }
+
+      if (pagination.mode === 'page') {
+        const [cards, total] = await Promise.all([
+          prisma.card.findMany({
+            where,
+            orderBy,
+            skip: (pagination.page - 1) * pagination.limit,
+            take: pagination.limit,
+          }),
+          prisma.card.count({ where }),
+        ])
+
+        res.status(200).json({
+          data: cards,
+          total,
+          page: pagination.page,
+          limit: pagination.limit,
+          totalPages: Math.ceil(total / pagination.limit),
+        })
+        return
+      }
+
+      // Mode curseur : on reprend après la dernière carte reçue
+      const [cards, total] = await Promise.all([
+        prisma.card.findMany({
+          where,
+          orderBy,
+          take: pagination.limit,
+          ...(pagination.cursor !== null && {
+            cursor: { id: pagination.cursor },
+            skip: 1,
+          }),
+        }),
+        prisma.card.count({ where }),
+      ])
+
+      res.status(200).json({
+        data: cards,
+        total,
+        limit: pagination.limit,
+        nextCursor:
+          cards.length === pagination.limit ? cards[cards.length - 1].id : null,
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * GET /api/cards/pokedex/:number
+ * Retrieves the card of a Pokemon by its Pokedex number.
+ * @param {Request} req - Express request object with Pokedex number in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the card or error
+ * @throws {Error} Returns 400 for invalid Pokedex number
+ * @throws {Error} Returns 404 if no card has this Pokedex number
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/cards/pokedex/25
+ * Response: { "id": 25, "name": "Pikachu", "pokedexNumber": 25, ... }
+ */
+cardsRouter.get(
+  '/pokedex/:number',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const pokedexNumber = parseInt(req.params.number)
+
+      if (isNaN(pokedexNumber)) {
+        throw ValidationError.forField('number', 'Invalid Pokedex number')
+      }
+
+      const card = await prisma.card.findFirst({
+        where: { pokedexNumber },
+      })
+
+      if (!card) {
+        throw new NotFoundError('Card not found', { code: 'CARD_NOT_FOUND' })
+      }
+
+      res.status(200).json(card)
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * GET /api/cards/:attackerId/vs/:defenderId
+ * Computes the result of an attack between two cards with the game rules.
+ * Damage takes the type multiplier and the defender's defense into account.
+ * @param {Request} req - Express request object with attacker and defender card IDs in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the multiplier and damage or error
+ * @throws {Error} Returns 400 for invalid card IDs
+ * @throws {Error} Returns 404 if one of the cards is not found
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/cards/25/vs/7
+ * Response: { "attacker": {...}, "defender": {...}, "multiplier": 2, "damage": 110, "superEffective": true, "hitsToKnockOut": 1 }
+ */
+cardsRouter.get(
+  '/:attackerId/vs/:defenderId',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attackerId = parseInt(req.params.attackerId)
+      const defenderId = parseInt(req.params.defenderId)
+
+      if (isNaN(attackerId) || isNaN(defenderId)) {
+        throw ValidationError.forField(
+          isNaN(attackerId) ? 'attackerId' : 'defenderId',
+          'Invalid card ID',
+        )
+      }
+
+      const [attacker, defender] = await Promise.all([
+        prisma.card.findUnique({ where: { id: attackerId } }),
+        prisma.card.findUnique({ where: { id: defenderId } }),
+      ])
+
+      if (!attacker || !defender) {
+        throw new NotFoundError('Card not found', { code: 'CARD_NOT_FOUND' })
+      }
+
+      const multiplier = getDamageMultiplier(attacker.type, defender.type)
+      const damage = calculateDamage(
+        attacker.attack,
+        attacker.type,
+        defender.type,
+        defender.defense,
+      )
+
+      res.status(200).json({
+        attacker,
+        defender,
+        multiplier,
+        damage,
+        superEffective: multiplier > 1,
+        // Aucun KO possible si l'attaque n'a pas d'effet
+        hitsToKnockOut: damage > 0 ? Math.ceil(defender.hp / damage) : null,
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * GET /api/cards/:id
+ * Retrieves a single card by its ID.
+ * @param {Request} req - Express request object with card ID in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the card or error
+ * @throws {Error} Returns 400 for invalid card ID
+ * @throws {Error} Returns 404 if card not found
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/cards/1
+ * Response: { "id": 1, "name": "Bulbasaur", "pokedexNumber": 1, ... }
+ */
+cardsRouter.get(
+  '/:id',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const cardId = parseInt(req.params.id)
+
+      if (isNaN(cardId)) {
+        throw ValidationError.forField('id', 'Invalid card ID')
+      }
+
+      const card = await prisma.card.findUnique({
+        where: { id: cardId },
+      })
+
+      if (!card) {
+        throw new NotFoundError('Card not found', { code: 'CARD_NOT_FOUND' })
+      }
+
+      res.status(200).json(card)
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * POST /api/cards
+ * Adds a card to the catalog. Admin only.
+ * @param {Request} req - Express request object with the card in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the created card or error
+ * @throws {Error} Returns 400 with the list of invalid fields
+ * @throws {Error} Returns 401 if token is missing or invalid, 403 if the user is not an admin
+ * @throws {Error} Returns 409 if a card already has this Pokedex number
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/cards
+ * Authorization: Bearer <admin token>
+ * Body: { "name": "Mew", "hp": 100, "attack": 100, "defense": 100, "type": "Psychic", "pokedexNumber": 151 }
+ * Response: { "id": 152, "name": "Mew", ... }
+ */
+cardsRouter.post(
+  '/',
+  requireRole(Role.ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { errors, data } = parseCardInput(req.body, false)
+      if (!data) {
+        throw new ValidationError('Invalid card', { errors })
+      }
+
+      // Le numéro pokédex identifie une carte à l'import des decks
+      const duplicate = await prisma.card.findFirst({
+        where: { pokedexNumber: data.pokedexNumber },
+      })
+      if (duplicate) {
+        throw new ConflictError(
+          'A card with this Pokedex number already exists',
+          {
+            code: 'DUPLICATE_POKEDEX_NUMBER',
+          },
+        )
+      }
+
+      const card = await prisma.card.create({ data })
+
+      res.status(201).json(card)
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * PATCH /api/cards/:id
+ * Updates some fields of a card. Admin only.
+ * Decks using the card see the change immediately.
+ * @param {Request} req - Express request object with card ID in params and the fields to change in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the updated card or error
+ * @throws {Error} Returns 400 for invalid card ID or with the list of invalid fields
+ * @throws {Error} Returns 401 if token is missing or invalid, 403 if the user is not an admin
+ * @throws {Error} Returns 404 if card not found
+ * @throws {Error} Returns 409 if another card already has this Pokedex number
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * PATCH /api/cards/25
+ * Authorization: Bearer <admin token>
+ * Body: { "attack": 60 }
+ * Response: { "id": 25, "name": "Pikachu", "attack": 60, ... }
  */
-cardsRouter.get('/', async (_req: Request, res: Response) => {
-  try {
-    // Récupérer toutes les cartes triées par pokedexNumber croissant
-    const cards = await prisma.card.findMany({
-      orderBy: {
-        pokedexNumber: 'asc',
-      },
-    })
-
-    // Retourner la liste des cartes
-    res.status(200).json(cards)
-  } catch (error) {
-    console.error('Error fetching cards:', error)
-    res.status(500).json({ error: 'Internal server error' })
-  }
-})
+cardsRouter.patch(
+  '/:id',
+  requireRole(Role.ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const cardId = parseInt(req.params.id)
+
+      if (isNaN(cardId)) {
+        throw ValidationError.forField('id', 'Invalid card ID')
+      }
+
+      const { errors, data } = parseCardInput(req.body, true)
+      if (!data) {
+        throw new ValidationError('Invalid card', { errors })
+      }
+
+      const card = await prisma.card.findUnique({ where: { id: cardId } })
+      if (!card) {
+        throw new NotFoundError('Card not found', { code: 'CARD_NOT_FOUND' })
+      }
+
+      if (data.pokedexNumber !== undefined) {
+        const duplicate = await prisma.card.findFirst({
+          where: { pokedexNumber: data.pokedexNumber, id: { not: cardId } },
+        })
+        if (duplicate) {
+          throw new ConflictError(
+            'A card with this Pokedex number already exists',
+            {
+              code: 'DUPLICATE_POKEDEX_NUMBER',
+            },
+          )
+        }
+      }
+
+      const updatedCard = await prisma.card.update({
+        where: { id: cardId },
+        data,
+      })
+
+      res.status(200).json(updatedCard)
+    } catch (error) {
+      next(error)
+    }
+  },
+)
+
+/**
+ * DELETE /api/cards/:id
+ * Removes a card from the catalog. Admin only.
+ * The card is removed from every deck using it and those decks are marked invalid
+ * until their owner replaces it, and pending trades including it are cancelled;
+ * everything happens in a single transaction.
+ * @param {Request} req - Express request object with card ID in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the IDs of the invalidated decks or error
+ * @throws {Error} Returns 400 for invalid card ID
+ * @throws {Error} Returns 401 if token is missing or invalid, 403 if the user is not an admin
+ * @throws {Error} Returns 404 if card not found
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * DELETE /api/cards/25
+ * Authorization: Bearer <admin token>
+ * Response: { "message": "Card deleted successfully", "invalidatedDecks": [1, 4] }
+ */
+cardsRouter.delete(
+  '/:id',
+  requireRole(Role.ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const cardId = parseInt(req.params.id)
+
+      if (isNaN(cardId)) {
+        throw ValidationError.forField('id', 'Invalid card ID')
+      }
+
+      const card = await prisma.card.findUnique({ where: { id: cardId } })
+      if (!card) {
+        throw new NotFoundError('Card not found', { code: 'CARD_NOT_FOUND' })
+      }
+
+      const invalidatedDecks = await prisma.$transaction(async (tx) => {
+        const deckCards = await tx.deckCard.findMany({
+          where: { cardId },
+          select: { deckId: true },
+          distinct: ['deckId'],
+        })
+        const deckIds = deckCards.map((deckCard) => deckCard.deckId)
+
+        // Retirer la carte des decks avant de la supprimer (pas de DeckCard orphelin)
+        await tx.deckCard.deleteMany({ where: { cardId } })
+        await tx.deck.updateMany({
+          where: { id: { in: deckIds } },
+          data: {
+            isValid: false,
+            invalidReason: `Card "${card.name}" was removed from the catalog`,
+          },
+        })
+        // Les échanges en attente ne peuvent plus se faire aux conditions proposées
+        await tx.trade.updateMany({
+          where: { status: TradeStatus.PENDING, items: { some: { cardId } } },
+          data: { status: TradeStatus.CANCELLED, respondedAt: new Date() },
+        })
+        await tx.card.delete({ where: { id: cardId } })
+
+        return deckIds
+      })
+
+      res
+        .status(200)
+        .json({ message: 'Card deleted successfully', invalidatedDecks })
+    } catch (error) {
+      next(error)
+    }
+  },
+)
@@ -0,0 +1,126 @@
+import { FieldError } from '../errors/app.errors'
+import { PokemonType, Prisma, Rarity } from '../generated/prisma/client'
+import { getDefaultRarity } from '../utils/booster.util'
+import { parsePokemonType } from './cards.query'
+
+/**
+ * Validation du corps des requêtes d'administration du catalogue (POST / PATCH /api/cards)
+ */
+
+export type CardInputResult =
+  | { errors: FieldError[]; data?: undefined }
+  | { errors: []; data: Prisma.CardUncheckedCreateInput }
+
+const INTEGER_FIELDS = [
+  { name: 'hp', min: 1 },
+  { name: 'attack', min: 0 },
+  { name: 'defense', min: 0 },
+  { name: 'pokedexNumber', min: 1 },
+] as const
+
+/**
+ * Validates the body of a card creation or update.
+ * Every invalid field is reported, not only the first one.
+ * @param {unknown} body - The request body
+ * @param {boolean} partial - True for an update, where every field is optional
+ * @returns {CardInputResult} The card data, or the list of errors
+ * @example
+ * parseCardInput({ name: 'Pikachu', hp: 35, attack: 55, defense: 40, type: 'Electric', pokedexNumber: 25 }, false)
+ */
+export function parseCardInput(
+  body: unknown,
+  partial: boolean,
+): CardInputResult {
+  const errors: FieldError[] = []
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<
+    string,
+    unknown
+  >
+  const data: Record<string, unknown> = {}
+
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+      errors.push({
+        field: 'name',
+        message: 'name is required and must be a non-empty string',
+      })
+    } else {
+      data.name = raw.name.trim()
+    }
+  }
+
+  for (const { name, min } of INTEGER_FIELDS) {
+    const value = raw[name]
+    if (value === undefined) {
+      // La défense est optionnelle (0 par défaut)
+      if (!partial && name !== 'defense') {
+        errors.push({ field: name, message: `${name} is required` })
+      }
+      continue
+    }
+    if (!Number.isInteger(value) || (value as number) < min) {
+      errors.push({
+        field: name,
+        message: `${name} must be an integer greater than or equal to ${min}`,
+      })
+      continue
+    }
+    data[name] = value
+  }
+
+  if (raw.type !== undefined || !partial) {
+    const type =
+      typeof raw.type === 'string' ? parsePokemonType(raw.type) : undefined
+    if (!type) {
+      errors.push({
+        field: 'type',
+        message: `type must be a valid PokemonType (expected one of: ${Object.values(PokemonType).join(', ')})`,
+      })
+    } else {
+      data.type = type
+    }
+  }
+
+  if (raw.rarity !== undefined) {
+    if (!Object.values(Rarity).includes(raw.rarity as Rarity)) {
+      errors.push({
+        field: 'rarity',
+        message: `rarity must be one of: ${Object.values(Rarity).join(', ')}`,
+      })
+    } else {
+      data.rarity = raw.rarity
+    }
+  }
+
+  if (raw.imgUrl !== undefined) {
+    if (raw.imgUrl !== null && typeof raw.imgUrl !== 'string') {
+      errors.push({
+        field: 'imgUrl',
+        message: 'imgUrl must be a string or null',
+      })
+    } else {
+      data.imgUrl = raw.imgUrl
+    }
+  }
+
+  if (partial && errors.length === 0 && Object.keys(data).length === 0) {
+    errors.push({
+      field: 'body',
+      message: 'At least one field must be provided',
+    })
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+  // Sans rareté explicite, une nouvelle carte est classée d'après ses statistiques
+  if (!partial && data.rarity === undefined) {
+    data.rarity = getDefaultRarity({
+      hp: data.hp as number,
+      attack: data.attack as number,
+      defense: (data.defense as number | undefined) ?? 0,
+      pokedexNumber: data.pokedexNumber as number,
+    })
+  }
+  return { errors: [], data: data as Prisma.CardUncheckedCreateInput }
+}
@@ -0,0 +1,55 @@
+import { Request, Response, Router } from 'express'
+import { ValidationError } from '../errors/app.errors'
+import { PokemonType } from '../generated/prisma/client'
+import {
+  getDamageMultiplier,
+  getImmunities,
+  getResistances,
+  getWeakness,
+  getWeaknesses,
+} from '../utils/rules.util'
+import { parsePokemonType } from './cards.query'
+
+export const typesRouter = Router()
+
+/**
+ * GET /api/types/:type/matchups
+ * Describes how a Pokemon type fares against the others with the game type chart.
+ * As a defender: `weakness` (main weakness), `weaknesses`, `resistances` and `immunities`
+ * list the attacking types dealing more, less or no damage to it.
+ * As an attacker: `strongAgainst`, `weakAgainst` and `noEffectAgainst` list the defending types.
+ * @param {Request} req - Express request object with the type in params (case-insensitive)
+ * @param {Response} res - Express response object
+ * @returns {void} JSON response with the type matchups or error
+ * @throws {Error} Returns 400 if the type does not exist
+ * @example
+ * GET /api/types/Water/matchups
+ * Response: { "type": "Water", "weakness": "Electric", "weaknesses": ["Electric", "Grass"], "resistances": [...], "immunities": [], "strongAgainst": ["Fire", "Ground", "Rock"], "weakAgainst": [...], "noEffectAgainst": [] }
+ */
+typesRouter.get('/:type/matchups', (req: Request, res: Response) => {
+  const type = parsePokemonType(req.params.type)
+
+  if (!type) {
+    throw ValidationError.forField(
+      'type',
+      `Invalid type, expected one of: ${Object.values(PokemonType).join(', ')}`,
+    )
+  }
+
+  const defenderTypes = Object.values(PokemonType)
+  const multiplierAgainst = (defenderType: PokemonType) =>
+    getDamageMultiplier(type, defenderType)
+
+  res.status(200).json({
+    type,
+    weakness: getWeakness(type),
+    weaknesses: getWeaknesses(type),
+    resistances: getResistances(type),
+    immunities: getImmunities(type),
+    strongAgainst: defenderTypes.filter((t) => multiplierAgainst(t) > 1),
+    weakAgainst: defenderTypes.filter(
+      (t) => multiplierAgainst(t) > 0 && multiplierAgainst(t) < 1,
+    ),
+    noEffectAgainst: defenderTypes.filter((t) => multiplierAgainst(t) === 0),
+  })
+})
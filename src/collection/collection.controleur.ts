@@ -0,0 +1,77 @@
+import { NextFunction, Request, Response } from 'express'
+import { ForbiddenError, ValidationError } from '../errors/app.errors'
+import { Role } from '../generated/prisma/client'
+import { CollectionService } from './collection.service'
+
+/**
+ * Retrieves the card collection of the authenticated user.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the owned cards or error
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/collection
+ * Response: { "totalCards": 17, "uniqueCards": 14, "cards": [{ "cardId": 1, "quantity": 2, "card": { "id": 1, "name": "Bulbasaur", ... } }, ...] }
+ */
+export const getCollection = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId
+
+    const collection = await CollectionService.getCollection(userId)
+
+    res.status(200).json(collection)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Opens a booster for the authenticated user and adds its cards to their collection.
+ * Only admins can choose the seed of the draw (to reproduce a draw).
+ * @param {Request} req - Express request object with optional `seed` in body and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the drawn cards or error
+ * @throws {Error} Returns 400 for an invalid seed
+ * @throws {Error} Returns 403 if a non-admin user sends a seed
+ * @throws {Error} Returns 429 if the daily booster limit is reached
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/boosters/open
+ * Response: { "openingId": 12, "seed": "9f2c4e1a7b3d5f60", "cards": [{ "id": 16, "name": "Pidgey", "rarity": "COMMON", ... }, ...], "remainingToday": 2 }
+ */
+export const openBooster = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const seed = req.body?.seed
+    const userId = req.user!.userId
+
+    if (seed !== undefined) {
+      if (req.user!.role !== Role.ADMIN) {
+        throw new ForbiddenError('Only admins can choose the seed')
+      }
+      if (typeof seed !== 'string' || seed.length === 0) {
+        throw ValidationError.forField(
+          'seed',
+          'Seed must be a non-empty string',
+        )
+      }
+    }
+
+    const booster = await CollectionService.openBooster(userId, seed)
+
+    res.status(201).json(booster)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
@@ -0,0 +1,152 @@
+import { prisma } from '../database'
+import { Prisma } from '../generated/prisma/client'
+
+export class CollectionRepository {
+  /**
+   * Retrieves the cards owned by a user with their quantities.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any[]>} The owned cards with card details, by Pokedex number
+   */
+  static async getUserCards(userId: number) {
+    return await prisma.userCard.findMany({
+      where: { userId },
+      include: { card: true },
+      orderBy: { card: { pokedexNumber: 'asc' } },
+    })
+  }
+
+  /**
+   * Retrieves how many copies of some cards a user owns.
+   * @param {number} userId - The ID of the user
+   * @param {number[]} cardIds - The IDs of the cards
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any[]>} The owned cards among them with their quantities
+   */
+  static async getOwnedCards(
+    userId: number,
+    cardIds: number[],
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.userCard.findMany({
+      where: { userId, cardId: { in: cardIds } },
+      select: { cardId: true, quantity: true },
+    })
+  }
+
+  /**
+   * Adds copies of cards to a user's collection.
+   * @param {number} userId - The ID of the user
+   * @param {Map<number, number>} quantities - The number of copies to add for each card ID
+   * @param {Prisma.TransactionClient} tx - The transaction the cards are added in
+   * @returns {Promise<void>} Resolves when the collection is updated
+   */
+  static async addCards(
+    userId: number,
+    quantities: Map<number, number>,
+    tx: Prisma.TransactionClient,
+  ) {
+    for (const [cardId, quantity] of quantities) {
+      await tx.userCard.upsert({
+        where: { userId_cardId: { userId, cardId } },
+        create: { userId, cardId, quantity },
+        update: { quantity: { increment: quantity } },
+      })
+    }
+  }
+
+  /**
+   * Removes copies of cards from a user's collection.
+   * Cards whose last copy is removed leave the collection.
+   * @param {number} userId - The ID of the user
+   * @param {Map<number, number>} quantities - The number of copies to remove for each card ID
+   * @param {Prisma.TransactionClient} tx - The transaction the cards are removed in
+   * @returns {Promise<void>} Resolves when the collection is updated
+   */
+  static async removeCards(
+    userId: number,
+    quantities: Map<number, number>,
+    tx: Prisma.TransactionClient,
+  ) {
+    for (const [cardId, quantity] of quantities) {
+      await tx.userCard.update({
+        where: { userId_cardId: { userId, cardId } },
+        data: { quantity: { decrement: quantity } },
+      })
+    }
+    await tx.userCard.deleteMany({
+      where: { userId, cardId: { in: [...quantities.keys()] }, quantity: 0 },
+    })
+  }
+
+  /**
+   * Locks the row of a user until the end of the transaction.
+   * Serializes the booster openings and trades of a user so the daily limit
+   * and the owned quantities cannot be bypassed.
+   * @param {number} userId - The ID of the user
+   * @param {Prisma.TransactionClient} tx - The transaction holding the lock
+   * @returns {Promise<void>} Resolves once the lock is held
+   */
+  static async lockUser(userId: number, tx: Prisma.TransactionClient) {
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`
+  }
+
+  /**
+   * Retrieves the cards that can be drawn in boosters.
+   * @returns {Promise<any[]>} Every card of the catalog, by ID
+   */
+  static async getBoosterCards() {
+    return await prisma.card.findMany({ orderBy: { id: 'asc' } })
+  }
+
+  /**
+   * Retrieves the cards with the given Pokedex numbers.
+   * @param {number[]} pokedexNumbers - The Pokedex numbers
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any[]>} The matching cards
+   */
+  static async findCardsByPokedexNumbers(
+    pokedexNumbers: number[],
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.card.findMany({
+      where: { pokedexNumber: { in: pokedexNumbers } },
+      select: { id: true },
+    })
+  }
+
+  /**
+   * Counts the boosters a user opened since a date.
+   * @param {number} userId - The ID of the user
+   * @param {Date} since - The start of the period
+   * @param {Prisma.TransactionClient} tx - The transaction to read in
+   * @returns {Promise<number>} The number of boosters opened
+   */
+  static async countOpeningsSince(
+    userId: number,
+    since: Date,
+    tx: Prisma.TransactionClient,
+  ) {
+    return await tx.boosterOpening.count({
+      where: { userId, openedAt: { gte: since } },
+    })
+  }
+
+  /**
+   * Records a booster opening with its seed, so the draw can be checked later.
+   * @param {number} userId - The ID of the user
+   * @param {string} seed - The seed of the draw
+   * @param {number[]} cardIds - The IDs of the drawn cards
+   * @param {Prisma.TransactionClient} tx - The transaction to write in
+   * @returns {Promise<any>} The created opening
+   */
+  static async createOpening(
+    userId: number,
+    seed: string,
+    cardIds: number[],
+    tx: Prisma.TransactionClient,
+  ) {
+    return await tx.boosterOpening.create({
+      data: { userId, seed, cardIds },
+    })
+  }
+}
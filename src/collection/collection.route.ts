@@ -0,0 +1,40 @@
+import { Router } from 'express'
+import { authenticateToken } from '../Authentification/auth.route'
+import { getCollection, openBooster } from './collection.controleur'
+
+export const collectionRouter = Router()
+export const boostersRouter = Router()
+
+// Appliquer le middleware d'authentification à toutes les routes
+collectionRouter.use(authenticateToken)
+boostersRouter.use(authenticateToken)
+
+/**
+ * GET /api/collection
+ * Retrieves the cards owned by the authenticated user with their quantities.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the collection or error
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/collection
+ * Authorization: Bearer <token>
+ * Response: { "totalCards": 17, "uniqueCards": 14, "cards": [...] }
+ */
+collectionRouter.get('/', getCollection)
+
+/**
+ * POST /api/boosters/open
+ * Opens a booster: random cards drawn with rarity weights are added to the collection.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with optional `seed` in body (admins only)
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the drawn cards or error
+ * @throws {Error} Returns 403 if a non-admin sends a seed, 429 once the daily limit is reached, 500 for internal server errors
+ * @example
+ * POST /api/boosters/open
+ * Authorization: Bearer <token>
+ * Response: { "openingId": 12, "seed": "9f2c4e1a7b3d5f60", "cards": [...], "remainingToday": 2 }
+ */
+boostersRouter.post('/open', openBooster)
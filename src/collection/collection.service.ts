@@ -0,0 +1,135 @@
+import { prisma } from '../database'
+import { env } from '../env'
+import { TooManyRequestsError } from '../errors/app.errors'
+import { Prisma } from '../generated/prisma/client'
+import { drawBooster } from '../utils/booster.util'
+import { createRng, randomSeed } from '../utils/random.util'
+import { CollectionRepository } from './collection.repository'
+
+// Cartes offertes à la création d'un compte, de quoi construire un premier deck
+export const STARTER_POKEDEX_NUMBERS = [
+  1, 4, 7, 10, 13, 16, 19, 21, 23, 25, 27, 29,
+]
+
+/**
+ * Counts the copies of each card in a list of card IDs.
+ * @param {number[]} cardIds - The card IDs, one entry per copy
+ * @returns {Map<number, number>} The number of copies of each card ID
+ */
+export function countCopies(cardIds: number[]): Map<number, number> {
+  const copies = new Map<number, number>()
+  for (const cardId of cardIds) {
+    copies.set(cardId, (copies.get(cardId) ?? 0) + 1)
+  }
+  return copies
+}
+
+export class CollectionService {
+  /**
+   * Gives the starter cards to a new account.
+   * @param {number} userId - The ID of the new user
+   * @param {Prisma.TransactionClient} tx - The transaction creating the account
+   * @returns {Promise<void>} Resolves when the cards are granted
+   */
+  static async grantStarterCards(userId: number, tx: Prisma.TransactionClient) {
+    const cards = await CollectionRepository.findCardsByPokedexNumbers(
+      STARTER_POKEDEX_NUMBERS,
+      tx,
+    )
+    await CollectionRepository.addCards(
+      userId,
+      countCopies(cards.map((card) => card.id)),
+      tx,
+    )
+  }
+
+  /**
+   * Retrieves the collection of a user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<object>} The owned cards with their quantities and collection totals
+   */
+  static async getCollection(userId: number) {
+    const userCards = await CollectionRepository.getUserCards(userId)
+
+    return {
+      totalCards: userCards.reduce((total, uc) => total + uc.quantity, 0),
+      uniqueCards: userCards.length,
+      cards: userCards.map((uc) => ({
+        cardId: uc.cardId,
+        quantity: uc.quantity,
+        card: uc.card,
+      })),
+    }
+  }
+
+  /**
+   * Retrieves how many copies of some cards a user owns.
+   * @param {number} userId - The ID of the user
+   * @param {number[]} cardIds - The IDs of the cards
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<Map<number, number>>} The owned quantity of each card, 0 if not owned
+   */
+  static async getOwnedQuantities(
+    userId: number,
+    cardIds: number[],
+    client?: Prisma.TransactionClient,
+  ) {
+    const owned = await CollectionRepository.getOwnedCards(
+      userId,
+      cardIds,
+      client,
+    )
+    const quantities = new Map<number, number>(
+      cardIds.map((cardId) => [cardId, 0]),
+    )
+    for (const { cardId, quantity } of owned) {
+      quantities.set(cardId, quantity)
+    }
+    return quantities
+  }
+
+  /**
+   * Opens a booster: draws random cards with the rarity weights and adds them to the collection.
+   * The draw, the collection update and the opening record happen in a single transaction.
+   * @param {number} userId - The ID of the user
+   * @param {string} [seed] - Seed of the draw, a random one by default
+   * @returns {Promise<object>} The opening ID, its seed, the drawn cards and the boosters left today
+   * @throws {TooManyRequestsError} If the daily booster limit is reached
+   */
+  static async openBooster(userId: number, seed: string = randomSeed()) {
+    const cards = await CollectionRepository.getBoosterCards()
+
+    return await prisma.$transaction(async (tx) => {
+      await CollectionRepository.lockUser(userId, tx)
+
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      const opened = await CollectionRepository.countOpeningsSince(
+        userId,
+        since,
+        tx,
+      )
+      if (opened >= env.BOOSTERS_PER_DAY) {
+        throw new TooManyRequestsError('Daily booster limit reached', {
+          code: 'BOOSTER_LIMIT_REACHED',
+        })
+      }
+
+      const drawn = drawBooster(cards, createRng(seed))
+      const cardIds = drawn.map((card) => card.id)
+      await CollectionRepository.addCards(userId, countCopies(cardIds), tx)
+      const opening = await CollectionRepository.createOpening(
+        userId,
+        seed,
+        cardIds,
+        tx,
+      )
+
+      return {
+        openingId: opening.id,
+        seed,
+        cards: drawn,
+        remainingToday: env.BOOSTERS_PER_DAY - opened - 1,
+      }
+    })
+  }
+}
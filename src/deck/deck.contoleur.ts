@@ -1,44 +1,35 @@
-import { Request, Response } from 'express'
+import { NextFunction, Request, Response } from 'express'
+import { ValidationError } from '../errors/app.errors'
 import { DeckService } from './deck.service'
+import { DECK_FORMATS, isDeckFormat } from './deck.format'
 
 /**
  * Creates a new deck for the authenticated user.
- * Validates deck requirements and associates cards with the deck.
+ * Checks the cards against every rule of the deck format and associates them with the deck.
  * @param {Request} req - Express request object with deck data in body and user authentication
  * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
  * @returns {Promise<void>} JSON response with created deck or error
- * @throws {Error} Returns 400 for validation errors, 500 for internal server errors
+ * @throws {Error} Returns 400 for validation errors (with the list of rule violations), 500 for internal server errors
  * @example
- * Body: { "name": "My Deck", "cards": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }
- * Response: { "id": 1, "name": "My Deck", "userId": 1, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...] }
+ * Body: { "name": "My Deck", "cards": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], "format": "standard" }
+ * Response: { "id": 1, "name": "My Deck", "userId": 1, "format": "standard", "isValid": true, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...] }
  */
 export const createDeck = async (
   req: Request,
   res: Response,
+  next: NextFunction,
 ): Promise<void> => {
   try {
-    const { name, cards } = req.body
+    const { name, cards, format } = req.body
     const userId = req.user!.userId
 
-    const deck = await DeckService.createDeck(userId, name, cards)
+    const deck = await DeckService.createDeck(userId, name, cards, format)
 
     res.status(201).json(deck)
     return
   } catch (error) {
-    console.error('Create deck error:', error)
-    if (error instanceof Error) {
-      if (
-        error.message.includes('required') ||
-        error.message.includes('10 cards') ||
-        error.message.includes('invalid') ||
-        error.message.includes('duplicate')
-      ) {
-        res.status(400).json({ error: error.message })
-        return
-      }
-    }
-    res.status(500).json({ error: 'Internal server error' })
-    return
+    next(error)
   }
 }
 
@@ -46,15 +37,17 @@ export const createDeck = async (
  * Retrieves all decks belonging to the authenticated user.
  * @param {Request} req - Express request object with user authentication
  * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
  * @returns {Promise<void>} JSON response with array of user's decks or error
  * @throws {Error} Returns 500 for internal server errors
  * @example
  * GET /api/decks
- * Response: [{ "id": 1, "name": "My Deck", "userId": 1, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...] }, ...]
+ * Response: [{ "id": 1, "name": "My Deck", "userId": 1, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...], "record": { "wins": 3, "losses": 1, "played": 4 } }, ...]
  */
 export const getUserDecks = async (
   req: Request,
   res: Response,
+  next: NextFunction,
 ): Promise<void> => {
   try {
     const userId = req.user!.userId
@@ -64,9 +57,7 @@ export const getUserDecks = async (
     res.status(200).json(decks)
     return
   } catch (error) {
-    console.error('Get user decks error:', error)
-    res.status(500).json({ error: 'Internal server error' })
-    return
+    next(error)
   }
 }
 
@@ -75,6 +66,7 @@ export const getUserDecks = async (
  * Ensures the deck belongs to the requesting user.
  * @param {Request} req - Express request object with deck ID in params and user authentication
  * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
  * @returns {Promise<void>} JSON response with deck details or error
  * @throws {Error} Returns 400 for invalid deck ID
  * @throws {Error} Returns 404 if deck not found or doesn't belong to user
@@ -86,14 +78,14 @@ export const getUserDecks = async (
 export const getDeckById = async (
   req: Request,
   res: Response,
+  next: NextFunction,
 ): Promise<void> => {
   try {
     const deckId = parseInt(req.params.id)
     const userId = req.user!.userId
 
     if (isNaN(deckId)) {
-      res.status(400).json({ error: 'Invalid deck ID' })
-      return
+      throw ValidationError.forField('id', 'Invalid deck ID')
     }
 
     const deck = await DeckService.getDeckById(deckId, userId)
@@ -101,13 +93,7 @@ export const getDeckById = async (
     res.status(200).json(deck)
     return
   } catch (error) {
-    console.error('Get deck by ID error:', error)
-    if (error instanceof Error && error.message.includes('not found')) {
-      res.status(404).json({ error: 'Deck not found' })
-      return
-    }
-    res.status(500).json({ error: 'Internal server error' })
-    return
+    next(error)
   }
 }
 
@@ -116,53 +102,42 @@ export const getDeckById = async (
  * Validates updated deck requirements and ensures ownership.
  * @param {Request} req - Express request object with deck ID in params, update data in body, and user authentication
  * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
  * @returns {Promise<void>} JSON response with updated deck or error
  * @throws {Error} Returns 400 for invalid deck ID or validation errors
  * @throws {Error} Returns 404 if deck not found or doesn't belong to user
  * @throws {Error} Returns 500 for internal server errors
  * @example
- * PUT /api/decks/1
- * Body: { "name": "Updated Deck", "cards": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }
+ * PATCH /api/decks/1
+ * Body: { "name": "Updated Deck", "cards": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], "format": "mono-type" }
  * Response: { "id": 1, "name": "Updated Deck", "userId": 1, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...] }
  */
 export const updateDeck = async (
   req: Request,
   res: Response,
+  next: NextFunction,
 ): Promise<void> => {
   try {
     const deckId = parseInt(req.params.id)
-    const { name, cards } = req.body
+    const { name, cards, format } = req.body
     const userId = req.user!.userId
 
     if (isNaN(deckId)) {
-      res.status(400).json({ error: 'Invalid deck ID' })
-      return
+      throw ValidationError.forField('id', 'Invalid deck ID')
     }
 
-    const deck = await DeckService.updateDeck(deckId, userId, name, cards)
+    const deck = await DeckService.updateDeck(
+      deckId,
+      userId,
+      name,
+      cards,
+      format,
+    )
 
     res.status(200).json(deck)
     return
   } catch (error) {
-    console.error('Update deck error:', error)
-    if (error instanceof Error) {
-      if (error.message.includes('not found')) {
-        res.status(404).json({ error: 'Deck not found' })
-        return
-      }
-      if (
-        error.message.includes('required') ||
-        error.message.includes('10 cards') ||
-        error.message.includes('invalid') ||
-        error.message.includes('duplicate') ||
-        error.message.includes('empty')
-      ) {
-        res.status(400).json({ error: error.message })
-        return
-      }
-    }
-    res.status(500).json({ error: 'Internal server error' })
-    return
+    next(error)
   }
 }
 
@@ -171,6 +146,7 @@ export const updateDeck = async (
  * Permanently removes the deck and all its associated cards.
  * @param {Request} req - Express request object with deck ID in params and user authentication
  * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
  * @returns {Promise<void>} JSON response with success message or error
  * @throws {Error} Returns 400 for invalid deck ID
  * @throws {Error} Returns 404 if deck not found or doesn't belong to user
@@ -182,14 +158,14 @@ export const updateDeck = async (
 export const deleteDeck = async (
   req: Request,
   res: Response,
+  next: NextFunction,
 ): Promise<void> => {
   try {
     const deckId = parseInt(req.params.id)
     const userId = req.user!.userId
 
     if (isNaN(deckId)) {
-      res.status(400).json({ error: 'Invalid deck ID' })
-      return
+      throw ValidationError.forField('id', 'Invalid deck ID')
     }
 
     await DeckService.deleteDeck(deckId, userId)
@@ -197,12 +173,191 @@ export const deleteDeck = async (
     res.status(200).json({ message: 'Deck deleted successfully' })
     return
   } catch (error) {
-    console.error('Delete deck error:', error)
-    if (error instanceof Error && error.message.includes('not found')) {
-      res.status(404).json({ error: 'Deck not found' })
+    next(error)
+  }
+}
+
+/**
+ * Exports a deck of the authenticated user as a text or JSON deck list.
+ * @param {Request} req - Express request object with deck ID in params and optional `format` query
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} Plain text or JSON deck list, or error
+ * @throws {Error} Returns 400 for invalid deck ID or format
+ * @throws {Error} Returns 404 if deck not found or doesn't belong to user
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/decks/1/export?format=text
+ * Response: "# My Deck\n1 Pikachu #025\n1 Bulbasaur #001\n..."
+ */
+export const exportDeck = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const deckId = parseInt(req.params.id)
+    const format = req.query.format ?? 'text'
+    const userId = req.user!.userId
+
+    if (isNaN(deckId)) {
+      throw ValidationError.forField('id', 'Invalid deck ID')
+    }
+    if (!isDeckFormat(format)) {
+      throw ValidationError.forField(
+        'format',
+        `format must be one of: ${DECK_FORMATS.join(', ')}`,
+      )
+    }
+
+    const list = await DeckService.exportDeck(deckId, userId, format)
+
+    if (typeof list === 'string') {
+      res.status(200).type('text/plain').send(list)
       return
     }
-    res.status(500).json({ error: 'Internal server error' })
+    res.status(200).json(list)
     return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves the statistics of a deck, and its matchup against another deck when `against` is given.
+ * @param {Request} req - Express request object with deck ID in params and optional `against` deck ID in query
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the deck statistics or error
+ * @throws {Error} Returns 400 for invalid deck IDs, 404 if a deck is not found, 500 for internal server errors
+ * @example
+ * GET /api/decks/1/stats?against=2
+ * Response: { "deckId": 1, "name": "My Deck", "cardCount": 10, "typeDistribution": { "Fire": 4, "Water": 6 }, "hp": { "total": 600, "average": 60, "median": 55 }, ..., "matchup": { "deckId": 2, "winRate": 0.55, ... } }
+ */
+export const getDeckStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const deckId = parseInt(req.params.id)
+    const userId = req.user!.userId
+
+    if (isNaN(deckId)) {
+      throw ValidationError.forField('id', 'Invalid deck ID')
+    }
+
+    let againstDeckId: number | undefined
+    if (req.query.against !== undefined) {
+      againstDeckId = parseInt(String(req.query.against))
+      if (isNaN(againstDeckId)) {
+        throw ValidationError.forField('against', 'Invalid opposing deck ID')
+      }
+    }
+
+    const stats = await DeckService.getDeckStats(deckId, userId, againstDeckId)
+
+    res.status(200).json(stats)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Creates a deck for the authenticated user from a text or JSON deck list.
+ * Cards are resolved by name or pokedex number; unresolved cards are reported line by line.
+ * @param {Request} req - Express request object with the deck list in body and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with created deck or error
+ * @throws {Error} Returns 400 for invalid format, unresolved lines or deck validation errors
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/decks/import
+ * Body: { "format": "text", "content": "# My Deck\n1 Pikachu #025\n1 Bulbasaur\n..." }
+ * Response (400): { "status": 400, "code": "DECK_LIST_INVALID", "detail": "Some lines of the deck list are invalid", "details": [{ "line": 3, "content": "1 Pikachuu", "message": "No card named \"Pikachuu\"" }], ... }
+ */
+export const importDeck = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { format = 'text', content, name, deckFormat } = req.body ?? {}
+    const userId = req.user!.userId
+
+    if (!isDeckFormat(format)) {
+      throw ValidationError.forField(
+        'format',
+        `format must be one of: ${DECK_FORMATS.join(', ')}`,
+      )
+    }
+    if (content === undefined || content === null) {
+      throw ValidationError.forField('content', 'Deck list content is required')
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      throw ValidationError.forField('name', 'Deck name must be a string')
+    }
+    if (deckFormat !== undefined && typeof deckFormat !== 'string') {
+      throw ValidationError.forField(
+        'deckFormat',
+        'Deck format must be a string',
+      )
+    }
+
+    const deck = await DeckService.importDeck(
+      userId,
+      format,
+      content,
+      name,
+      deckFormat,
+    )
+
+    res.status(201).json(deck)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Checks a deck of the authenticated user against the rules of its format, or of another format.
+ * Every violation is returned at once; checking against the deck's own format refreshes its `isValid` flag.
+ * @param {Request} req - Express request object with deck ID in params, optional `format` in body, and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the validation result or error
+ * @throws {Error} Returns 400 for invalid deck ID or unknown format
+ * @throws {Error} Returns 404 if deck not found or doesn't belong to user
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/decks/1/validate
+ * Body: { "format": "mono-type" }
+ * Response: { "deckId": 1, "format": "mono-type", "valid": false, "violations": [{ "rule": "maxDistinctTypes", "message": "A Mono-type deck can use at most 1 type(s) (found Fire, Water)" }] }
+ */
+export const validateDeck = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const deckId = parseInt(req.params.id)
+    const format = req.body?.format
+    const userId = req.user!.userId
+
+    if (isNaN(deckId)) {
+      throw ValidationError.forField('id', 'Invalid deck ID')
+    }
+    if (format !== undefined && typeof format !== 'string') {
+      throw ValidationError.forField('format', 'Deck format must be a string')
+    }
+
+    const result = await DeckService.validateDeck(deckId, userId, format)
+
+    res.status(200).json(result)
+    return
+  } catch (error) {
+    next(error)
   }
 }
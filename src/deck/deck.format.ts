@@ -0,0 +1,280 @@
+import { ValidationError } from '../errors/app.errors'
+import { MAX_DECK_SIZE } from '../utils/deck-rules.util'
+
+/**
+ * Formats d'import / export des decks
+ * - text : une carte par ligne, "<quantité> <nom> #<numéro pokédex>" (ex: "1 Pikachu #025").
+ *   La quantité et le numéro sont optionnels, une ligne "# <nom>" donne le nom du deck.
+ * - json : { "name": "My Deck", "format": "standard", "cards": [{ "quantity": 1, "name": "Pikachu", "pokedexNumber": 25 }] }
+ */
+
+export const DECK_FORMATS = ['text', 'json'] as const
+
+export type DeckFormat = (typeof DECK_FORMATS)[number]
+
+// Aucun format n'accepte plus de cartes qu'un deck n'en contient
+const MAX_QUANTITY = MAX_DECK_SIZE
+
+export interface DeckListEntry {
+  // Numéro de ligne (text) ou position dans "cards" (json), à partir de 1
+  line: number
+  content: string
+  quantity: number
+  name?: string
+  pokedexNumber?: number
+}
+
+export interface DeckLineError {
+  line: number
+  content: string
+  message: string
+}
+
+export interface ParsedDeckList {
+  name?: string
+  // Format de deck (règles de jeu) indiqué dans une liste json
+  deckFormat?: string
+  entries: DeckListEntry[]
+  errors: DeckLineError[]
+}
+
+interface ExportableDeck {
+  name: string
+  format: string
+  deckCards: { card: { name: string; pokedexNumber: number } }[]
+}
+
+/**
+ * Error raised when an imported deck list contains lines that cannot be used.
+ * Carries one detail per faulty line so the client can fix them all at once.
+ */
+export class DeckImportError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly details: DeckLineError[],
+  ) {
+    super(message, {
+      code: 'DECK_LIST_INVALID',
+      errors: details.map((detail) => ({
+        field: 'content',
+        message: `Line ${detail.line}: ${detail.message}`,
+      })),
+      extensions: { details },
+    })
+  }
+}
+
+/**
+ * Checks that a value is a supported deck format.
+ * @param {unknown} value - The format sent by the client
+ * @returns {boolean} True if the value is "text" or "json"
+ */
+export function isDeckFormat(value: unknown): value is DeckFormat {
+  return DECK_FORMATS.includes(value as DeckFormat)
+}
+
+/**
+ * Groups the cards of a deck by card, keeping the deck order.
+ * @param {ExportableDeck} deck - The deck with its cards
+ * @returns {object[]} One entry per distinct card with its quantity
+ */
+function groupCards(deck: ExportableDeck) {
+  const groups = new Map<
+    string,
+    { quantity: number; name: string; pokedexNumber: number }
+  >()
+  for (const { card } of deck.deckCards) {
+    const key = `${card.pokedexNumber}:${card.name}`
+    const group = groups.get(key)
+    if (group) {
+      group.quantity++
+    } else {
+      groups.set(key, {
+        quantity: 1,
+        name: card.name,
+        pokedexNumber: card.pokedexNumber,
+      })
+    }
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Writes a deck as a readable text list.
+ * @param {ExportableDeck} deck - The deck with its cards
+ * @returns {string} The deck list, one card per line
+ * @example
+ * formatDeckAsText(deck)
+ * // "# My Deck\n1 Pikachu #025\n1 Bulbasaur #001\n"
+ */
+export function formatDeckAsText(deck: ExportableDeck): string {
+  const lines = groupCards(deck).map(
+    (group) =>
+      `${group.quantity} ${group.name} #${String(group.pokedexNumber).padStart(3, '0')}`,
+  )
+  return [`# ${deck.name}`, ...lines].join('\n') + '\n'
+}
+
+/**
+ * Writes a deck in the JSON import/export format.
+ * @param {ExportableDeck} deck - The deck with its cards
+ * @returns {object} The deck name, its format and its grouped cards
+ */
+export function formatDeckAsJson(deck: ExportableDeck) {
+  return { name: deck.name, format: deck.format, cards: groupCards(deck) }
+}
+
+/**
+ * Parses a text deck list. Empty lines are ignored and a "# <name>" line names the deck.
+ * @param {string} content - The deck list
+ * @returns {ParsedDeckList} The card entries and the lines that could not be parsed
+ */
+function parseTextDeckList(content: string): ParsedDeckList {
+  const result: ParsedDeckList = { entries: [], errors: [] }
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1
+    const text = rawLine.trim()
+    if (text.length === 0) return
+
+    // Ligne de titre : "# My Deck" (mais pas "#025" qui est un numéro)
+    if (/^#\s/.test(text)) {
+      result.name ??= text.slice(1).trim()
+      return
+    }
+
+    // La quantité peut être seule ("3x"), la ligne est alors signalée faute de carte
+    const match = /^(?:(\d+)x?(?:\s+|$))?(.*?)\s*(?:#(\d+))?$/i.exec(text)!
+    const quantity = match[1] === undefined ? 1 : Number(match[1])
+    const name = match[2].length > 0 ? match[2] : undefined
+    const pokedexNumber = match[3] === undefined ? undefined : Number(match[3])
+
+    if (quantity < 1 || quantity > MAX_QUANTITY) {
+      result.errors.push({
+        line,
+        content: text,
+        message: `Quantity must be between 1 and ${MAX_QUANTITY}`,
+      })
+      return
+    }
+    if (name === undefined && pokedexNumber === undefined) {
+      result.errors.push({
+        line,
+        content: text,
+        message: 'A card name or pokedex number is required',
+      })
+      return
+    }
+    result.entries.push({ line, content: text, quantity, name, pokedexNumber })
+  })
+
+  return result
+}
+
+/**
+ * Parses a JSON deck list, given as an object or as a JSON string.
+ * @param {unknown} content - The deck list
+ * @returns {ParsedDeckList} The card entries and the entries that could not be parsed
+ */
+function parseJsonDeckList(content: unknown): ParsedDeckList {
+  let raw = content
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw)
+    } catch {
+      return {
+        entries: [],
+        errors: [
+          { line: 0, content: '', message: 'Content is not valid JSON' },
+        ],
+      }
+    }
+  }
+
+  const deck = raw as { name?: unknown; format?: unknown; cards?: unknown }
+  if (!deck || typeof deck !== 'object' || !Array.isArray(deck.cards)) {
+    return {
+      entries: [],
+      errors: [
+        { line: 0, content: '', message: '"cards" must be an array of cards' },
+      ],
+    }
+  }
+
+  const result: ParsedDeckList = {
+    name: typeof deck.name === 'string' ? deck.name : undefined,
+    deckFormat: typeof deck.format === 'string' ? deck.format : undefined,
+    entries: [],
+    errors: [],
+  }
+
+  deck.cards.forEach((rawEntry: unknown, index) => {
+    const line = index + 1
+    const entry = (rawEntry ?? {}) as Record<string, unknown>
+    const text = JSON.stringify(rawEntry) ?? ''
+    const quantity = entry.quantity === undefined ? 1 : entry.quantity
+    const name = typeof entry.name === 'string' ? entry.name.trim() : undefined
+    const pokedexNumber = entry.pokedexNumber
+
+    if (
+      !Number.isInteger(quantity) ||
+      (quantity as number) < 1 ||
+      (quantity as number) > MAX_QUANTITY
+    ) {
+      result.errors.push({
+        line,
+        content: text,
+        message: `Quantity must be an integer between 1 and ${MAX_QUANTITY}`,
+      })
+      return
+    }
+    if (pokedexNumber !== undefined && !Number.isInteger(pokedexNumber)) {
+      result.errors.push({
+        line,
+        content: text,
+        message: 'pokedexNumber must be an integer',
+      })
+      return
+    }
+    if (!name && pokedexNumber === undefined) {
+      result.errors.push({
+        line,
+        content: text,
+        message: 'A card name or pokedex number is required',
+      })
+      return
+    }
+    result.entries.push({
+      line,
+      content: text,
+      quantity: quantity as number,
+      name: name || undefined,
+      pokedexNumber: pokedexNumber as number | undefined,
+    })
+  })
+
+  return result
+}
+
+/**
+ * Parses a deck list in one of the supported formats.
+ * Every faulty line is reported, not only the first one.
+ * @param {DeckFormat} format - The format of the content
+ * @param {unknown} content - The deck list (a string, or an object for json)
+ * @returns {ParsedDeckList} The deck name, its card entries and the parsing errors
+ */
+export function parseDeckList(
+  format: DeckFormat,
+  content: unknown,
+): ParsedDeckList {
+  if (format === 'json') {
+    return parseJsonDeckList(content)
+  }
+  if (typeof content !== 'string') {
+    return {
+      entries: [],
+      errors: [{ line: 0, content: '', message: 'Content must be a string' }],
+    }
+  }
+  return parseTextDeckList(content)
+}
@@ -1,21 +1,26 @@
 import { prisma } from '../database'
+import { Prisma } from '../generated/prisma/client'
 
 export class DeckRepository {
   /**
    * Creates a new deck with associated cards for a user.
    * @param {number} userId - The ID of the user creating the deck
    * @param {string} name - The name of the deck
-   * @param {number[]} cardIds - Array of exactly 10 card IDs to associate with the deck
+   * @param {number[]} cardIds - Card IDs to associate with the deck, one entry per copy
+   * @param {string} format - The ID of the deck format
    * @returns {Promise<any>} The created deck with its associated cards and card details
    */
-  static async createDeck(userId: number, name: string, cardIds: number[]) {
-    if (cardIds.length !== 10) {
-      throw new Error('Exactly 10 cards are required')
-    }
+  static async createDeck(
+    userId: number,
+    name: string,
+    cardIds: number[],
+    format: string,
+  ) {
     return await prisma.deck.create({
       data: {
         name,
         userId,
+        format,
         deckCards: {
           create: cardIds.map((cardId) => ({ cardId })),
         },
@@ -68,12 +73,14 @@ export class DeckRepository {
   }
 
   /**
-   * Updates a deck's name and associated cards.
+   * Updates a deck's name, format and associated cards.
    * Replaces all existing card associations with new ones.
    * @param {number} deckId - The ID of the deck to update
    * @param {number} userId - The ID of the user who owns the deck
    * @param {string} name - The new name for the deck
-   * @param {number[]} cardIds - Array of 10 card IDs to associate with the deck
+   * @param {number[]} cardIds - Card IDs to associate with the deck, one entry per copy
+   * @param {string} format - The ID of the deck format
+   * @param {boolean} checked - True if the cards were just checked against the rules of the format
    * @returns {Promise<any>} The updated deck with its associated cards
    */
   static async updateDeck(
@@ -81,10 +88,9 @@ export class DeckRepository {
     userId: number,
     name: string,
     cardIds: number[],
+    format: string,
+    checked: boolean,
   ) {
-    if (cardIds.length !== 10) {
-      throw new Error('Exactly 10 cards are required')
-    }
     // Supprimer les anciennes associations
     await prisma.deckCard.deleteMany({
       where: { deckId },
@@ -98,6 +104,9 @@ export class DeckRepository {
       },
       data: {
         name,
+        format,
+        // Un deck vérifié redevient jouable ; sinon son état (ex. invalidé par un échange) est conservé
+        ...(checked && { isValid: true, invalidReason: null }),
         deckCards: {
           create: cardIds.map((cardId) => ({ cardId })),
         },
@@ -134,17 +143,81 @@ export class DeckRepository {
   }
 
   /**
-   * Validates that all provided card IDs exist in the database.
-   * @param {number[]} cardIds - Array of card IDs to validate
-   * @returns {Promise<number[]>} Array of existing card IDs
+   * Retrieves the cards with the given IDs.
+   * @param {number[]} cardIds - Array of card IDs, duplicates allowed
+   * @returns {Promise<any[]>} The existing cards, once each
    */
-  static async validateCardIds(cardIds: number[]) {
-    const cards = await prisma.card.findMany({
+  static async findCardsByIds(cardIds: number[]) {
+    return await prisma.card.findMany({
       where: {
         id: { in: cardIds },
       },
-      select: { id: true },
     })
-    return cards.map((card) => card.id)
+  }
+
+  /**
+   * Retrieves the valid decks of a user that use some cards.
+   * @param {number} userId - The ID of the user
+   * @param {number[]} cardIds - The IDs of the cards
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any[]>} The decks with the IDs and names of their cards
+   */
+  static async findValidDecksUsingCards(
+    userId: number,
+    cardIds: number[],
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.deck.findMany({
+      where: {
+        userId,
+        isValid: true,
+        deckCards: { some: { cardId: { in: cardIds } } },
+      },
+      include: {
+        deckCards: {
+          select: { cardId: true, card: { select: { name: true } } },
+        },
+      },
+    })
+  }
+
+  /**
+   * Stores whether a deck satisfies the rules of its format.
+   * @param {number} deckId - The ID of the deck
+   * @param {string | null} invalidReason - Why the deck is invalid, or null if it is valid
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any>} The updated deck
+   */
+  static async setDeckValidity(
+    deckId: number,
+    invalidReason: string | null,
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.deck.update({
+      where: { id: deckId },
+      data: { isValid: invalidReason === null, invalidReason },
+    })
+  }
+
+  /**
+   * Finds the cards matching pokedex numbers or names (case-insensitive).
+   * Used to resolve the cards of an imported deck list.
+   * @param {string[]} names - Card names to look up
+   * @param {number[]} pokedexNumbers - Pokedex numbers to look up
+   * @returns {Promise<any[]>} The matching cards, ordered by ID
+   */
+  static async findCardsByNamesOrNumbers(
+    names: string[],
+    pokedexNumbers: number[],
+  ) {
+    return await prisma.card.findMany({
+      where: {
+        OR: [
+          { pokedexNumber: { in: pokedexNumbers } },
+          { name: { in: names, mode: 'insensitive' } },
+        ],
+      },
+      orderBy: { id: 'asc' },
+    })
   }
 }
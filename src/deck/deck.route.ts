@@ -1,11 +1,18 @@
 import { Router } from 'express'
 import { authenticateToken } from '../Authentification/auth.route'
+import { validateBody } from '../docs/openapi'
+import { env } from '../env'
+import { byUser, rateLimit } from '../rate-limit/rate-limit.middleware'
 import {
   createDeck,
   getUserDecks,
   getDeckById,
   updateDeck,
   deleteDeck,
+  exportDeck,
+  importDeck,
+  validateDeck,
+  getDeckStats,
 } from './deck.contoleur'
 
 export const deckRouter = Router()
@@ -13,6 +20,14 @@ export const deckRouter = Router()
 // Appliquer le middleware d'authentification à toutes les routes
 deckRouter.use(authenticateToken)
 
+// Limite par utilisateur des routes qui écrivent un deck (création, import, modification)
+const deckWriteLimit = rateLimit({
+  name: 'deck-write',
+  limit: env.RATE_LIMIT_DECK_WRITES_PER_USER,
+  windowMs: env.RATE_LIMIT_DECK_WRITES_WINDOW_MS,
+  key: byUser,
+})
+
 /**
  * POST /api/decks
  * Creates a new deck for the authenticated user.
@@ -20,18 +35,69 @@ deckRouter.use(authenticateToken)
  * @param {Request} req - Express request object with deck data in body
  * @param {Response} res - Express response object
  * @returns {Promise<void>} JSON response with created deck or error
- * @throws {Error} Returns 400 for validation errors, 500 for internal server errors
+ * @throws {Error} Returns 400 if the body does not match the DeckInput schema or breaks the format rules, 429 if the user writes decks too often, 500 for internal server errors
  * @example
  * POST /api/decks
  * Authorization: Bearer <token>
  * Body: { "name": "My Deck", "cards": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }
  * Response: { "id": 1, "name": "My Deck", "userId": 1, "createdAt": "2023-01-01T00:00:00.000Z", "updatedAt": "2023-01-01T00:00:00.000Z", "deckCards": [...] }
  */
-deckRouter.post('/', createDeck)
+deckRouter.post('/', deckWriteLimit, validateBody('DeckInput'), createDeck)
 
 // GET /api/decks/mine - Lister les decks de l'utilisateur
 deckRouter.get('/mine', getUserDecks)
 
+/**
+ * POST /api/decks/import
+ * Creates a deck from a text or JSON deck list.
+ * Cards are resolved by name or pokedex number, then the usual deck rules apply.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with `format`, `content` and optional `name` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with created deck or error
+ * @throws {Error} Returns 400 with line-by-line details when cards cannot be resolved, 500 for internal server errors
+ * @example
+ * POST /api/decks/import
+ * Authorization: Bearer <token>
+ * Body: { "format": "text", "content": "# My Deck\n1 Pikachu #025\n1 Bulbasaur #001\n..." }
+ * Response: { "id": 2, "name": "My Deck", "userId": 1, "deckCards": [...] }
+ */
+deckRouter.post('/import', deckWriteLimit, importDeck)
+
+// GET /api/decks/:id/export?format=text|json - Exporter un deck
+deckRouter.get('/:id/export', exportDeck)
+
+/**
+ * POST /api/decks/:id/validate
+ * Checks a deck against every rule of its format (or of the format given in body).
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with deck ID in params and optional `format` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the list of rule violations or error
+ * @throws {Error} Returns 400 for invalid deck ID or unknown format, 404 if deck not found, 500 for internal server errors
+ * @example
+ * POST /api/decks/1/validate
+ * Authorization: Bearer <token>
+ * Response: { "deckId": 1, "format": "standard", "valid": true, "violations": [] }
+ */
+deckRouter.post('/:id/validate', validateDeck)
+
+/**
+ * GET /api/decks/:id/stats
+ * Computes the type distribution, HP and attack statistics and weaknesses of a deck.
+ * With `against`, also estimates the matchup against another deck of the user from every card pairing.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with deck ID in params and optional `against` deck ID in query
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the deck statistics or error
+ * @throws {Error} Returns 400 for invalid deck IDs, 404 if a deck is not found, 500 for internal server errors
+ * @example
+ * GET /api/decks/1/stats?against=2
+ * Authorization: Bearer <token>
+ * Response: { "deckId": 1, "cardCount": 10, "typeDistribution": {...}, "hp": {...}, "attack": {...}, "superEffectiveTypes": [...], "matchup": {...} }
+ */
+deckRouter.get('/:id/stats', getDeckStats)
+
 /**
  * GET /api/decks/:id
  * Retrieves a specific deck by ID for the authenticated user.
@@ -48,8 +114,13 @@ deckRouter.get('/mine', getUserDecks)
  */
 deckRouter.get('/:id', getDeckById)
 
-// PATCH /api/decks/:id - Modifier un deck
-deckRouter.patch('/:id', updateDeck)
+// PATCH /api/decks/:id - Modifier un deck (corps validé par le schéma DeckUpdateInput)
+deckRouter.patch(
+  '/:id',
+  deckWriteLimit,
+  validateBody('DeckUpdateInput'),
+  updateDeck,
+)
 
 /**
  * DELETE /api/decks/:id
@@ -1,48 +1,210 @@
 import { DeckRepository } from './deck.repository'
+import { NotFoundError, ValidationError } from '../errors/app.errors'
+import { Prisma } from '../generated/prisma/client'
+import { MatchService } from '../match/match.service'
+import {
+  CollectionService,
+  countCopies,
+} from '../collection/collection.service'
+import {
+  DECK_FORMAT_RULES,
+  DEFAULT_DECK_FORMAT,
+  DeckFormatRules,
+  DeckRuleViolation,
+  getDeckFormat,
+  validateDeckCards,
+} from '../utils/deck-rules.util'
+import { computeDeckStats, estimateMatchup } from '../utils/deck-stats.util'
+import {
+  DeckFormat,
+  DeckImportError,
+  DeckLineError,
+  formatDeckAsJson,
+  formatDeckAsText,
+  parseDeckList,
+} from './deck.format'
+
+/**
+ * Error raised when a deck breaks the rules of its format.
+ * Carries every violation so the client can fix them all at once.
+ */
+export class DeckValidationError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly violations: DeckRuleViolation[],
+  ) {
+    super(message, {
+      code: 'DECK_RULES_VIOLATED',
+      errors: violations.map((violation) => ({
+        field: 'cards',
+        message: violation.message,
+        code: violation.rule,
+      })),
+      extensions: { violations },
+    })
+  }
+}
 
 export class DeckService {
+  /**
+   * Returns the rules of a deck format.
+   * @param {string} formatId - The ID of the format
+   * @returns {DeckFormatRules} The format
+   * @throws {ValidationError} If the format does not exist
+   */
+  static getFormat(formatId: string): DeckFormatRules {
+    const format = getDeckFormat(formatId)
+    if (!format) {
+      throw ValidationError.forField(
+        'format',
+        `Unknown deck format "${formatId}" (expected one of: ${Object.keys(DECK_FORMAT_RULES).join(', ')})`,
+        'UNKNOWN_DECK_FORMAT',
+      )
+    }
+    return format
+  }
+
+  /**
+   * Checks a list of card IDs against the rules of a format and the user's collection.
+   * Unknown card IDs and cards used in more copies than owned are reported
+   * as violations along with the format rules.
+   * @param {number} userId - The ID of the user building the deck
+   * @param {number[]} cardIds - The card IDs of the deck, one entry per copy
+   * @param {DeckFormatRules} format - The format to check against
+   * @returns {Promise<DeckRuleViolation[]>} Every broken rule, empty if the deck is valid
+   */
+  static async checkDeckRules(
+    userId: number,
+    cardIds: number[],
+    format: DeckFormatRules,
+  ) {
+    const cards = await DeckRepository.findCardsByIds(cardIds)
+    const cardsById = new Map(cards.map((card) => [card.id, card]))
+
+    const violations: DeckRuleViolation[] = []
+    const unknownIds = [...new Set(cardIds)].filter((id) => !cardsById.has(id))
+    if (unknownIds.length > 0) {
+      violations.push({
+        rule: 'unknownCards',
+        message: 'Some card IDs are invalid',
+        cardIds: unknownIds,
+      })
+    }
+
+    // Le deck ne peut utiliser plus d'exemplaires que la collection n'en contient
+    const copies = countCopies(cardIds)
+    const owned = await CollectionService.getOwnedQuantities(userId, [
+      ...copies.keys(),
+    ])
+    const notOwnedIds = [...copies]
+      .filter(
+        ([cardId, count]) =>
+          cardsById.has(cardId) && count > owned.get(cardId)!,
+      )
+      .map(([cardId]) => cardId)
+    if (notOwnedIds.length > 0) {
+      violations.push({
+        rule: 'notOwned',
+        message: 'Some cards are used in more copies than you own',
+        cardIds: notOwnedIds,
+      })
+    }
+
+    const deckCards = cardIds.flatMap((id) => {
+      const card = cardsById.get(id)
+      return card ? [card] : []
+    })
+    // Les cartes inconnues comptent dans la taille du deck
+    return [
+      ...violations,
+      ...validateDeckCards(deckCards, format, cardIds.length),
+    ]
+  }
+
+  /**
+   * Checks a list of card IDs and throws every violation at once.
+   * @param {number} userId - The ID of the user building the deck
+   * @param {unknown} cardIds - The card IDs sent by the client
+   * @param {DeckFormatRules} format - The format to check against
+   * @returns {Promise<number[]>} The valid card IDs
+   * @throws {ValidationError} If cardIds is not an array of integers
+   * @throws {DeckValidationError} If the deck breaks the rules of the format
+   */
+  private static async assertDeckRules(
+    userId: number,
+    cardIds: unknown,
+    format: DeckFormatRules,
+  ): Promise<number[]> {
+    if (
+      !Array.isArray(cardIds) ||
+      !cardIds.every((id) => Number.isInteger(id))
+    ) {
+      throw ValidationError.forField(
+        'cards',
+        'An array of card IDs is required',
+      )
+    }
+
+    const violations = await DeckService.checkDeckRules(userId, cardIds, format)
+    if (violations.length > 0) {
+      throw new DeckValidationError(
+        `Deck does not satisfy the ${format.name} format`,
+        violations,
+      )
+    }
+    return cardIds
+  }
+
   /**
    * Creates a new deck for a user with validation.
-   * Validates deck name, card count, uniqueness, and existence.
+   * The cards are checked against every rule of the deck format and against the user's collection.
    * @param {number} userId - The ID of the user creating the deck
    * @param {string} name - The name of the deck
-   * @param {number[]} cardIds - Array of exactly 10 unique card IDs
+   * @param {number[]} cardIds - Card IDs of the deck, one entry per copy
+   * @param {string} [formatId] - The ID of the deck format, "standard" by default
    * @returns {Promise<any>} The created deck with its associated cards
-   * @throws {Error} If name is empty, card count is not 10, cards are duplicated, or some cards don't exist
+   * @throws {ValidationError} If name is empty or the format does not exist
+   * @throws {DeckValidationError} If the cards break the rules of the format
    */
-  static async createDeck(userId: number, name: string, cardIds: number[]) {
+  static async createDeck(
+    userId: number,
+    name: string,
+    cardIds: number[],
+    formatId: string = DEFAULT_DECK_FORMAT,
+  ) {
     // Validation des données
     if (!name || name.trim().length === 0) {
-      throw new Error('Deck name is required')
-    }
-
-    if (!cardIds || !Array.isArray(cardIds) || cardIds.length !== 10) {
-      throw new Error('Exactly 10 cards are required')
+      throw ValidationError.forField('name', 'Deck name is required')
     }
 
-    // Vérifier les doublons
-    const uniqueCardIds = [...new Set(cardIds)]
-    if (uniqueCardIds.length !== cardIds.length) {
-      throw new Error('Duplicate card IDs are not allowed')
-    }
-
-    // Vérifier que toutes les cartes existent
-    const existingCardIds = await DeckRepository.validateCardIds(cardIds)
-    if (existingCardIds.length !== cardIds.length) {
-      throw new Error('Some card IDs are invalid')
-    }
+    const format = DeckService.getFormat(formatId)
+    const validCardIds = await DeckService.assertDeckRules(
+      userId,
+      cardIds,
+      format,
+    )
 
     // Créer le deck
-    return await DeckRepository.createDeck(userId, name.trim(), cardIds)
+    return await DeckRepository.createDeck(
+      userId,
+      name.trim(),
+      validCardIds,
+      format.id,
+    )
   }
 
   /**
    * Retrieves all decks belonging to a specific user.
+   * Each deck carries its win/loss record over finished matches.
    * @param {number} userId - The ID of the user whose decks to retrieve
-   * @returns {Promise<any[]>} Array of decks with their associated cards and card details
+   * @returns {Promise<any[]>} Array of decks with their associated cards, card details and record
    */
   static async getUserDecks(userId: number) {
-    return await DeckRepository.getUserDecks(userId)
+    const decks = await DeckRepository.getUserDecks(userId)
+    const records = await MatchService.getDeckRecords(
+      decks.map((deck) => deck.id),
+    )
+    return decks.map((deck) => ({ ...deck, record: records.get(deck.id) }))
   }
 
   /**
@@ -51,64 +213,59 @@ export class DeckService {
    * @param {number} deckId - The ID of the deck to retrieve
    * @param {number} userId - The ID of the user who owns the deck
    * @returns {Promise<any>} The deck with its associated cards
-   * @throws {Error} If deck not found or doesn't belong to user
+   * @throws {NotFoundError} If deck not found or doesn't belong to user
    */
   static async getDeckById(deckId: number, userId: number) {
     const deck = await DeckRepository.getDeckByIdAndUser(deckId, userId)
     if (!deck) {
-      throw new Error('Deck not found')
+      throw new NotFoundError('Deck not found', { code: 'DECK_NOT_FOUND' })
     }
     return deck
   }
 
   /**
-   * Updates an existing deck's name and/or cards.
-   * Validates ownership, name, and card requirements.
+   * Updates an existing deck's name, cards and/or format.
+   * When the cards or the format change, the deck is checked against every rule of its format
+   * and becomes playable again; otherwise its validity is left unchanged.
    * @param {number} deckId - The ID of the deck to update
    * @param {number} userId - The ID of the user who owns the deck
    * @param {string} [name] - Optional new name for the deck
-   * @param {number[]} [cardIds] - Optional array of exactly 10 unique card IDs
+   * @param {number[]} [cardIds] - Optional new card IDs, one entry per copy
+   * @param {string} [formatId] - Optional new deck format
    * @returns {Promise<any>} The updated deck with its associated cards
-   * @throws {Error} If deck not found, name is empty, or card validation fails
+   * @throws {NotFoundError} If deck not found
+   * @throws {ValidationError} If name is empty or the format does not exist
+   * @throws {DeckValidationError} If the cards break the rules of the format
    */
   static async updateDeck(
     deckId: number,
     userId: number,
     name?: string,
     cardIds?: number[],
+    formatId?: string,
   ) {
     // Vérifier que le deck existe et appartient à l'utilisateur
     const existingDeck = await DeckRepository.getDeckByIdAndUser(deckId, userId)
     if (!existingDeck) {
-      throw new Error('Deck not found')
+      throw new NotFoundError('Deck not found', { code: 'DECK_NOT_FOUND' })
     }
 
     // Validation du nom si fourni
     const finalName = name !== undefined ? name : existingDeck.name
     if (!finalName || finalName.trim().length === 0) {
-      throw new Error('Deck name cannot be empty')
+      throw ValidationError.forField('name', 'Deck name cannot be empty')
     }
 
-    // Validation des cartes si fournies
+    // Validation des cartes et du format si fournis
+    const format = DeckService.getFormat(formatId ?? existingDeck.format)
     let finalCardIds = existingDeck.deckCards.map((dc) => dc.cardId)
-    if (cardIds !== undefined) {
-      if (!Array.isArray(cardIds) || cardIds.length !== 10) {
-        throw new Error('Exactly 10 cards are required')
-      }
-
-      // Vérifier les doublons
-      const uniqueCardIds = [...new Set(cardIds)]
-      if (uniqueCardIds.length !== cardIds.length) {
-        throw new Error('Duplicate card IDs are not allowed')
-      }
-
-      // Vérifier que toutes les cartes existent
-      const existingCardIds = await DeckRepository.validateCardIds(cardIds)
-      if (existingCardIds.length !== cardIds.length) {
-        throw new Error('Some card IDs are invalid')
-      }
-
-      finalCardIds = cardIds
+    const checked = cardIds !== undefined || formatId !== undefined
+    if (checked) {
+      finalCardIds = await DeckService.assertDeckRules(
+        userId,
+        cardIds ?? finalCardIds,
+        format,
+      )
     }
 
     // Mettre à jour le deck
@@ -117,6 +274,8 @@ export class DeckService {
       userId,
       finalName.trim(),
       finalCardIds,
+      format.id,
+      checked,
     )
   }
 
@@ -126,16 +285,233 @@ export class DeckService {
    * @param {number} deckId - The ID of the deck to delete
    * @param {number} userId - The ID of the user who owns the deck
    * @returns {Promise<void>} Resolves when deletion is complete
-   * @throws {Error} If deck not found or doesn't belong to user
+   * @throws {NotFoundError} If deck not found or doesn't belong to user
    */
   static async deleteDeck(deckId: number, userId: number) {
     // Vérifier que le deck existe et appartient à l'utilisateur
     const existingDeck = await DeckRepository.getDeckByIdAndUser(deckId, userId)
     if (!existingDeck) {
-      throw new Error('Deck not found')
+      throw new NotFoundError('Deck not found', { code: 'DECK_NOT_FOUND' })
     }
 
     // Supprimer le deck
     return await DeckRepository.deleteDeck(deckId, userId)
   }
+
+  /**
+   * Exports a deck as a readable list in the requested format.
+   * Ensures the deck belongs to the user.
+   * @param {number} deckId - The ID of the deck to export
+   * @param {number} userId - The ID of the user who owns the deck
+   * @param {DeckFormat} format - "text" for a plain list, "json" for a structured list
+   * @returns {Promise<string | object>} The text list, or the JSON deck list
+   * @throws {NotFoundError} If deck not found or doesn't belong to user
+   */
+  static async exportDeck(deckId: number, userId: number, format: DeckFormat) {
+    const deck = await DeckService.getDeckById(deckId, userId)
+    return format === 'text' ? formatDeckAsText(deck) : formatDeckAsJson(deck)
+  }
+
+  /**
+   * Creates a deck from a text or JSON deck list.
+   * Cards are resolved by pokedex number or name, then the rules of the deck format apply.
+   * @param {number} userId - The ID of the user importing the deck
+   * @param {DeckFormat} format - The format of the deck list
+   * @param {unknown} content - The deck list
+   * @param {string} [name] - Deck name, overrides the name found in the list
+   * @param {string} [deckFormat] - Deck format, overrides the format found in the list
+   * @returns {Promise<any>} The created deck with its associated cards
+   * @throws {DeckImportError} If some lines cannot be parsed or resolved to a card
+   * @throws {DeckValidationError} If the resolved deck breaks the rules of its format
+   */
+  static async importDeck(
+    userId: number,
+    format: DeckFormat,
+    content: unknown,
+    name?: string,
+    deckFormat?: string,
+  ) {
+    const list = parseDeckList(format, content)
+    const errors: DeckLineError[] = [...list.errors]
+
+    const cards = await DeckRepository.findCardsByNamesOrNumbers(
+      list.entries.flatMap((entry) => (entry.name ? [entry.name] : [])),
+      list.entries.flatMap((entry) =>
+        entry.pokedexNumber !== undefined ? [entry.pokedexNumber] : [],
+      ),
+    )
+
+    // Résoudre chaque ligne en carte : le numéro pokédex prime sur le nom
+    const cardIds: number[] = []
+    for (const entry of list.entries) {
+      const card =
+        entry.pokedexNumber !== undefined
+          ? cards.find((c) => c.pokedexNumber === entry.pokedexNumber)
+          : cards.find(
+              (c) => c.name.toLowerCase() === entry.name!.toLowerCase(),
+            )
+
+      if (!card) {
+        errors.push({
+          line: entry.line,
+          content: entry.content,
+          message:
+            entry.pokedexNumber !== undefined
+              ? `No card with pokedex number ${entry.pokedexNumber}`
+              : `No card named "${entry.name}"`,
+        })
+        continue
+      }
+      if (entry.name && card.name.toLowerCase() !== entry.name.toLowerCase()) {
+        errors.push({
+          line: entry.line,
+          content: entry.content,
+          message: `Pokedex number ${entry.pokedexNumber} is ${card.name}, not "${entry.name}"`,
+        })
+        continue
+      }
+      cardIds.push(...Array<number>(entry.quantity).fill(card.id))
+    }
+
+    if (errors.length > 0) {
+      throw new DeckImportError(
+        'Some lines of the deck list are invalid',
+        errors.sort((a, b) => a.line - b.line),
+      )
+    }
+
+    return await DeckService.createDeck(
+      userId,
+      name ?? list.name ?? '',
+      cardIds,
+      deckFormat ?? list.deckFormat,
+    )
+  }
+
+  /**
+   * Checks a deck against the rules of its format, or of another format.
+   * When checked against its own format, the stored validity of the deck is refreshed.
+   * @param {number} deckId - The ID of the deck to check
+   * @param {number} userId - The ID of the user who owns the deck
+   * @param {string} [formatId] - The format to check against, the deck's format by default
+   * @returns {Promise<object>} The format checked, whether the deck is valid and every violation
+   * @throws {NotFoundError} If deck not found
+   * @throws {ValidationError} If the format does not exist
+   */
+  static async validateDeck(deckId: number, userId: number, formatId?: string) {
+    const deck = await DeckService.getDeckById(deckId, userId)
+    const format = DeckService.getFormat(formatId ?? deck.format)
+
+    const violations = await DeckService.checkDeckRules(
+      userId,
+      deck.deckCards.map((dc) => dc.cardId),
+      format,
+    )
+
+    if (format.id === deck.format) {
+      const invalidReason = violations[0]?.message ?? null
+      if (
+        invalidReason !== deck.invalidReason ||
+        deck.isValid !== !invalidReason
+      ) {
+        await DeckRepository.setDeckValidity(deck.id, invalidReason)
+      }
+    }
+
+    return {
+      deckId: deck.id,
+      format: format.id,
+      valid: violations.length === 0,
+      violations,
+    }
+  }
+
+  /**
+   * Computes the statistics of a deck and, optionally, its matchup against another deck of the user.
+   * @param {number} deckId - The ID of the deck to analyse
+   * @param {number} userId - The ID of the user who owns the decks
+   * @param {number} [againstDeckId] - The ID of the deck to estimate the matchup against
+   * @returns {Promise<object>} The deck statistics, with the matchup estimate or null
+   * @throws {NotFoundError} If the deck or the opposing deck is not found
+   */
+  static async getDeckStats(
+    deckId: number,
+    userId: number,
+    againstDeckId?: number,
+  ) {
+    const deck = await DeckService.getDeckById(deckId, userId)
+    const cards = deck.deckCards.map((dc) => dc.card)
+
+    let matchup = null
+    if (againstDeckId !== undefined) {
+      const opponent = await DeckRepository.getDeckByIdAndUser(
+        againstDeckId,
+        userId,
+      )
+      if (!opponent) {
+        throw new NotFoundError('Opposing deck not found', {
+          code: 'DECK_NOT_FOUND',
+        })
+      }
+      matchup = {
+        deckId: opponent.id,
+        name: opponent.name,
+        ...estimateMatchup(
+          cards,
+          opponent.deckCards.map((dc) => dc.card),
+        ),
+      }
+    }
+
+    return {
+      deckId: deck.id,
+      name: deck.name,
+      ...computeDeckStats(cards),
+      matchup,
+    }
+  }
+
+  /**
+   * Flags the decks of a user that use more copies of some cards than the user still owns.
+   * Called after cards left the collection (e.g. traded away).
+   * @param {number} userId - The ID of the user who lost cards
+   * @param {number[]} cardIds - The IDs of the cards that left the collection
+   * @param {Prisma.TransactionClient} tx - The transaction that removed the cards
+   * @returns {Promise<object[]>} The decks that were flagged as invalid
+   */
+  static async flagDecksMissingCards(
+    userId: number,
+    cardIds: number[],
+    tx: Prisma.TransactionClient,
+  ) {
+    const decks = await DeckRepository.findValidDecksUsingCards(
+      userId,
+      cardIds,
+      tx,
+    )
+    const owned = await CollectionService.getOwnedQuantities(
+      userId,
+      cardIds,
+      tx,
+    )
+
+    const flagged: { id: number; name: string; userId: number }[] = []
+    for (const deck of decks) {
+      const copies = countCopies(deck.deckCards.map((dc) => dc.cardId))
+      const missing = deck.deckCards.find(
+        (dc) =>
+          owned.has(dc.cardId) &&
+          copies.get(dc.cardId)! > owned.get(dc.cardId)!,
+      )
+      if (missing) {
+        await DeckRepository.setDeckValidity(
+          deck.id,
+          `Card "${missing.card.name}" is no longer owned in enough copies`,
+          tx,
+        )
+        flagged.push({ id: deck.id, name: deck.name, userId })
+      }
+    }
+    return flagged
+  }
 }
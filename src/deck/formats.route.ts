@@ -0,0 +1,19 @@
+import { Request, Response, Router } from 'express'
+import { DECK_FORMAT_RULES } from '../utils/deck-rules.util'
+
+export const formatsRouter = Router()
+
+/**
+ * GET /api/formats
+ * Lists the deck formats and their rules: deck size, copies per card,
+ * total HP cap, and allowed or banned types and cards.
+ * @param {Request} _req - Express request object (not used)
+ * @param {Response} res - Express response object
+ * @returns {void} JSON response with the formats
+ * @example
+ * GET /api/formats
+ * Response: [{ "id": "standard", "name": "Standard", "deckSize": 10, "maxCopies": 1, "maxTotalHp": null, ... }, ...]
+ */
+formatsRouter.get('/', (_req: Request, res: Response) => {
+  res.status(200).json(Object.values(DECK_FORMAT_RULES))
+})
@@ -0,0 +1,28 @@
+import { Router } from 'express'
+import swaggerUi from 'swagger-ui-express'
+import { openApiDocument } from './openapi'
+
+export const docsRouter = Router()
+
+/**
+ * GET /api/openapi.json
+ * Returns the OpenAPI 3 document of the API.
+ * @param {Request} _req - Express request object (not used)
+ * @param {Response} res - Express response object
+ * @returns {void} JSON response with the OpenAPI document
+ * @example
+ * GET /api/openapi.json
+ * Response: { "openapi": "3.0.3", "info": { "title": "TCG Pokemon-like API", ... }, "paths": {...}, "components": {...} }
+ */
+docsRouter.get('/openapi.json', (_req, res) => {
+  res.json(openApiDocument)
+})
+
+// GET /api/docs - Interface Swagger UI de la documentation
+docsRouter.use(
+  '/docs',
+  swaggerUi.serve,
+  swaggerUi.setup(openApiDocument, {
+    customSiteTitle: 'TCG API Documentation',
+  }),
+)
@@ -0,0 +1,73 @@
+import fs from 'fs'
+import path from 'path'
+import yaml from 'js-yaml'
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import { ValidationError } from '../errors/app.errors'
+import { JsonSchema, validateSchema } from '../utils/schema.util'
+
+/**
+ * Document OpenAPI de l'API (src/docs/openapi.yaml)
+ * Sert la documentation et valide les corps de requête avec les mêmes schémas.
+ */
+
+export interface OpenApiDocument {
+  openapi: string
+  paths: Record<string, unknown>
+  components: { schemas: Record<string, JsonSchema> }
+  [key: string]: unknown
+}
+
+// tsc ne copie pas le YAML dans dist : on le lit toujours depuis src/docs
+const OPENAPI_PATH = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  'src',
+  'docs',
+  'openapi.yaml',
+)
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/'
+
+export const openApiDocument = yaml.load(
+  fs.readFileSync(OPENAPI_PATH, 'utf8'),
+) as OpenApiDocument
+
+/**
+ * Returns a schema of the OpenAPI document from its name or its `$ref`.
+ * @param {string} nameOrRef - The schema name ("DeckInput") or reference ("#/components/schemas/DeckInput")
+ * @returns {JsonSchema} The schema
+ * @throws {Error} If the document has no such schema
+ */
+export function getSchema(nameOrRef: string): JsonSchema {
+  const name = nameOrRef.startsWith(SCHEMA_REF_PREFIX)
+    ? nameOrRef.slice(SCHEMA_REF_PREFIX.length)
+    : nameOrRef
+  const schema = openApiDocument.components.schemas[name]
+  if (!schema) {
+    throw new Error(`Unknown OpenAPI schema: ${nameOrRef}`)
+  }
+  return schema
+}
+
+/**
+ * Builds a middleware validating the request body against a schema of the OpenAPI document.
+ * Every faulty field is reported in a single 400 error.
+ * @param {string} schemaName - The name of the schema in `components.schemas`
+ * @returns {RequestHandler} The validation middleware
+ * @throws {Error} If the document has no such schema (when the route is declared)
+ * @example
+ * deckRouter.post('/', validateBody('DeckInput'), createDeck)
+ */
+export function validateBody(schemaName: string): RequestHandler {
+  const schema = getSchema(schemaName)
+
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const errors = validateSchema(req.body ?? {}, schema, getSchema)
+    if (errors.length > 0) {
+      next(new ValidationError('Invalid request body', { errors }))
+      return
+    }
+    next()
+  }
+}
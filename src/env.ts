@@ -7,4 +7,39 @@ export const env = {
   JWT_SECRET: (process.env.JWT_SECRET || 'default-secret') as string,
   DATABASE_URL: (process.env.DATABASE_URL || 'file:./dev.db') as string,
   NODE_ENV: (process.env.NODE_ENV || 'development') as string,
+  ACCESS_TOKEN_TTL: (process.env.ACCESS_TOKEN_TTL || '15m') as string,
+  REFRESH_TOKEN_TTL_DAYS: Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30),
+  TYPE_CHART_PATH: (process.env.TYPE_CHART_PATH || '') as string,
+  BOOSTERS_PER_DAY: Number(process.env.BOOSTERS_PER_DAY || 3),
+  // Nombre de proxies devant le serveur, pour lire la vraie IP des clients
+  TRUST_PROXY: Number(process.env.TRUST_PROXY || 0),
+  RATE_LIMIT_AUTH_PER_IP: Number(process.env.RATE_LIMIT_AUTH_PER_IP || 20),
+  RATE_LIMIT_AUTH_WINDOW_MS: Number(
+    process.env.RATE_LIMIT_AUTH_WINDOW_MS || 15 * 60 * 1000,
+  ),
+  RATE_LIMIT_SIGN_IN_PER_ACCOUNT: Number(
+    process.env.RATE_LIMIT_SIGN_IN_PER_ACCOUNT || 10,
+  ),
+  RATE_LIMIT_DECK_WRITES_PER_USER: Number(
+    process.env.RATE_LIMIT_DECK_WRITES_PER_USER || 30,
+  ),
+  RATE_LIMIT_DECK_WRITES_WINDOW_MS: Number(
+    process.env.RATE_LIMIT_DECK_WRITES_WINDOW_MS || 60 * 1000,
+  ),
+  LOGIN_MAX_FAILURES: Number(process.env.LOGIN_MAX_FAILURES || 5),
+  LOGIN_LOCKOUT_BASE_MS: Number(process.env.LOGIN_LOCKOUT_BASE_MS || 60 * 1000),
+  LOGIN_LOCKOUT_MAX_MS: Number(
+    process.env.LOGIN_LOCKOUT_MAX_MS || 60 * 60 * 1000,
+  ),
+  RATE_LIMIT_PASSWORD_RESET_PER_ACCOUNT: Number(
+    process.env.RATE_LIMIT_PASSWORD_RESET_PER_ACCOUNT || 3,
+  ),
+  PASSWORD_RESET_TTL_MINUTES: Number(
+    process.env.PASSWORD_RESET_TTL_MINUTES || 30,
+  ),
+  // Page du client qui reçoit le token de réinitialisation en paramètre
+  PASSWORD_RESET_URL: (process.env.PASSWORD_RESET_URL ||
+    'http://localhost:3000/reset-password') as string,
+  MAIL_FROM: (process.env.MAIL_FROM || 'no-reply@tcg.local') as string,
+  MAIL_OUTBOX_DIR: (process.env.MAIL_OUTBOX_DIR || 'outbox') as string,
 }
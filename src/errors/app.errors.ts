@@ -0,0 +1,130 @@
+/**
+ * Erreurs métier de l'API
+ * Chaque erreur porte un statut HTTP et un code stable, lisible par les clients.
+ * Le middleware errorHandler les transforme en réponses application/problem+json.
+ */
+
+export interface FieldError {
+  // Chemin du champ fautif (ex. "hp", "offeredCards[0].quantity")
+  field: string
+  message: string
+  code?: string
+}
+
+export interface AppErrorOptions {
+  // Code stable remplaçant le code par défaut de la classe (ex. "DECK_NOT_FOUND")
+  code?: string
+  errors?: FieldError[]
+  // Membres ajoutés tels quels à la réponse (ex. "violations", "missing")
+  extensions?: Record<string, unknown>
+}
+
+/**
+ * Base class of the errors the API turns into an HTTP response.
+ * Any other error is answered with a generic 500.
+ */
+export abstract class AppError extends Error {
+  readonly code: string
+  readonly errors: FieldError[]
+  readonly extensions: Record<string, unknown>
+
+  protected constructor(
+    readonly status: number,
+    message: string,
+    defaultCode: string,
+    options: AppErrorOptions = {},
+  ) {
+    super(message)
+    this.name = new.target.name
+    this.code = options.code ?? defaultCode
+    this.errors = options.errors ?? []
+    this.extensions = options.extensions ?? {}
+  }
+}
+
+/**
+ * The request is malformed or breaks a rule (400).
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(400, message, 'VALIDATION_FAILED', options)
+  }
+
+  /**
+   * Builds a validation error about a single field.
+   * @param {string} field - The faulty field
+   * @param {string} message - What is wrong with it
+   * @param {string} [code] - The stable code of the error
+   * @returns {ValidationError} The error, with the field in its details
+   * @example
+   * throw ValidationError.forField('id', 'Invalid deck ID')
+   */
+  static forField(
+    field: string,
+    message: string,
+    code?: string,
+  ): ValidationError {
+    return new ValidationError(message, { code, errors: [{ field, message }] })
+  }
+}
+
+/**
+ * The request is not authenticated (401).
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(401, message, 'UNAUTHORIZED', options)
+  }
+}
+
+/**
+ * The authenticated user is not allowed to do this (403).
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(403, message, 'FORBIDDEN', options)
+  }
+}
+
+/**
+ * The resource does not exist, or is not visible to the user (404).
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(404, message, 'NOT_FOUND', options)
+  }
+}
+
+/**
+ * The request conflicts with the current state of the resource (409).
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(409, message, 'CONFLICT', options)
+  }
+}
+
+export interface TooManyRequestsOptions extends AppErrorOptions {
+  // Délai avant de pouvoir réessayer, en secondes (en-tête Retry-After)
+  retryAfter?: number
+}
+
+/**
+ * The user has exceeded a quota (429).
+ * With `retryAfter`, the response carries a Retry-After header and a `retryAfter` member.
+ */
+export class TooManyRequestsError extends AppError {
+  readonly retryAfter?: number
+
+  constructor(message: string, options: TooManyRequestsOptions = {}) {
+    const { retryAfter, ...appErrorOptions } = options
+    super(429, message, 'TOO_MANY_REQUESTS', {
+      ...appErrorOptions,
+      extensions: {
+        ...appErrorOptions.extensions,
+        ...(retryAfter !== undefined && { retryAfter }),
+      },
+    })
+    this.retryAfter = retryAfter
+  }
+}
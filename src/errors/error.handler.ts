@@ -0,0 +1,126 @@
+import { STATUS_CODES } from 'http'
+import { NextFunction, Request, Response } from 'express'
+import {
+  AppError,
+  FieldError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+} from './app.errors'
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * Body of an error response (RFC 9457 problem details).
+ * `code` identifies the error for the clients, `errors` lists the faulty fields.
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail: string
+  instance: string
+  code: string
+  errors?: FieldError[]
+  [extension: string]: unknown
+}
+
+/**
+ * Builds the problem details of an error.
+ * @param {AppError} error - The error to describe
+ * @param {string} instance - The path of the failed request
+ * @returns {ProblemDetails} The body of the response
+ */
+export function toProblem(error: AppError, instance: string): ProblemDetails {
+  return {
+    ...error.extensions,
+    type: 'about:blank',
+    title: STATUS_CODES[error.status] as string,
+    status: error.status,
+    detail: error.message,
+    instance,
+    code: error.code,
+    ...(error.errors.length > 0 && { errors: error.errors }),
+  }
+}
+
+/**
+ * Answers requests to an API route that does not exist.
+ * @param {Request} req - Express request object
+ * @param {Response} _res - Express response object (not used)
+ * @param {NextFunction} next - Express next function, called with a NotFoundError
+ */
+export const notFoundHandler = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) => {
+  next(
+    new NotFoundError(
+      `Route ${req.method} ${req.baseUrl}${req.path} not found`,
+      {
+        code: 'ROUTE_NOT_FOUND',
+      },
+    ),
+  )
+}
+
+/**
+ * Central error middleware: turns the errors of every route into problem+json responses.
+ * Application errors keep their status and code (and Retry-After for a 429); a malformed JSON body is a 400;
+ * anything else is logged and answered with a generic 500 that leaks no detail.
+ * @param {unknown} error - The error passed to next() by a route
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, used when the response has already started
+ */
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  // Réponse déjà commencée : Express se charge de couper la connexion
+  if (res.headersSent) {
+    next(error)
+    return
+  }
+
+  let appError: AppError
+  if (error instanceof AppError) {
+    appError = error
+  } else if (
+    error instanceof SyntaxError &&
+    (error as { type?: string }).type === 'entity.parse.failed'
+  ) {
+    // Corps JSON invalide rejeté par express.json()
+    appError = new ValidationError('Request body is not valid JSON', {
+      code: 'INVALID_JSON',
+    })
+  } else {
+    console.error(`${req.method} ${req.originalUrl} error:`, error)
+    res
+      .status(500)
+      .type(PROBLEM_CONTENT_TYPE)
+      .json({
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Internal server error',
+        instance: req.originalUrl,
+        code: 'INTERNAL_ERROR',
+      } satisfies ProblemDetails)
+    return
+  }
+
+  if (
+    appError instanceof TooManyRequestsError &&
+    appError.retryAfter !== undefined
+  ) {
+    res.set('Retry-After', String(appError.retryAfter))
+  }
+  res
+    .status(appError.status)
+    .type(PROBLEM_CONTENT_TYPE)
+    .json(toProblem(appError, req.originalUrl))
+}
@@ -4,19 +4,23 @@ import express from 'express'
 import cors from 'cors'
 import { authRouter } from './Authentification/auth.route'
 import { cardsRouter } from './Cards/cards.route'
+import { typesRouter } from './Cards/types.route'
 import { deckRouter } from './deck/deck.route'
-
-
+import { boostersRouter, collectionRouter } from './collection/collection.route'
+import { formatsRouter } from './deck/formats.route'
+import { matchRouter } from './match/match.route'
+import { leaderboardRouter, userRatingRouter } from './rating/rating.route'
+import { tradeRouter } from './trade/trade.route'
+import { userRouter } from './user/user.route'
+import { initSocketServer } from './sockets/socket'
+import { errorHandler, notFoundHandler } from './errors/error.handler'
+import { docsRouter } from './docs/docs.route'
 
 // Create Express app
 export const app = express()
 
 const PORT = process.env.PORT || 3000
 
-app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`)
-})
-
 // Middlewares
 app.use(
   cors({
@@ -27,6 +31,9 @@ app.use(
 
 app.use(express.json())
 
+// IP réelle des clients derrière un proxy (utilisée par la limitation de débit)
+app.set('trust proxy', env.TRUST_PROXY)
+
 // Serve static files (Socket.io test client)
 app.use(express.static('public'))
 
@@ -50,24 +57,57 @@ app.use('/api/auth', authRouter)
 // Cards routes
 app.use('/api/cards', cardsRouter)
 
+// Type matchup routes
+app.use('/api/types', typesRouter)
+
 // Deck routes
 app.use('/api/decks', deckRouter)
 
+// Collection and booster routes
+app.use('/api/collection', collectionRouter)
+app.use('/api/boosters', boostersRouter)
+
+// Trade routes
+app.use('/api/trades', tradeRouter)
+
+// Deck format routes
+app.use('/api/formats', formatsRouter)
+
+// Match history routes
+app.use('/api/matches', matchRouter)
+
+// Rating routes
+app.use('/api/leaderboard', leaderboardRouter)
+app.use('/api/users', userRatingRouter)
+
+// User account and profile routes
+app.use('/api/users', userRouter)
+
+// API documentation (Swagger UI and OpenAPI document)
+app.use('/api', docsRouter)
+
+// Error handling: unknown API routes, then problem+json responses
+app.use('/api', notFoundHandler)
+app.use(errorHandler)
+
 // Start server only if this file is run directly (not imported for tests)
 if (require.main === module) {
   // Create HTTP server
   const httpServer = createServer(app)
 
+  // Attach Socket.io server (rooms and game events)
+  initSocketServer(httpServer)
+
   // Start server
   try {
     httpServer.listen(PORT, () => {
       console.log(`\n🚀 Server is running on http://localhost:${env.PORT}`)
-      console.log(`\n🧪 Socket.io Test Client available at http://localhost:${env.PORT}`)
+      console.log(
+        `\n🧪 Socket.io Test Client available at http://localhost:${env.PORT}`,
+      )
     })
   } catch (error) {
     console.error('Failed to start server:', error)
     process.exit(1)
   }
 }
-
-console.log('test')
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { env } from '../env'
+
+/**
+ * Envoi des emails
+ * L'envoi passe par une interface : l'outbox fichier permet de développer et de tester
+ * sans serveur SMTP, un transport SMTP ou un service d'envoi pourra l'implémenter en production.
+ */
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  /**
+   * Sends an email.
+   * @param {MailMessage} message - The recipient, subject and plain text body
+   * @returns {Promise<void>} Resolves once the email is handed over
+   */
+  send(message: MailMessage): Promise<void>
+}
+
+// Email tel qu'il est écrit dans l'outbox
+export interface OutboxMail extends MailMessage {
+  id: string
+  from: string
+  sentAt: string
+}
+
+export class FileOutboxTransport implements MailTransport {
+  /**
+   * @param {string} directory - The folder the emails are written to, created if needed
+   * @param {string} from - The sender of the emails
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly from: string,
+  ) {}
+
+  /**
+   * Writes the email to the outbox, one JSON file per email.
+   * The file names start with the date, so they sort from the oldest to the newest.
+   * @param {MailMessage} message - The recipient, subject and plain text body
+   * @returns {Promise<void>} Resolves once the file is written
+   */
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date()
+    const mail: OutboxMail = {
+      id: randomUUID(),
+      from: this.from,
+      sentAt: sentAt.toISOString(),
+      ...message,
+    }
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(
+      path.join(this.directory, `${sentAt.getTime()}-${mail.id}.json`),
+      JSON.stringify(mail, null, 2),
+    )
+  }
+}
+
+export const mailTransport: MailTransport = new FileOutboxTransport(
+  env.MAIL_OUTBOX_DIR,
+  env.MAIL_FROM,
+)
@@ -0,0 +1,140 @@
+import { NextFunction, Request, Response } from 'express'
+import { ValidationError } from '../errors/app.errors'
+import { GameError } from '../sockets/game.engine'
+import { MatchService } from './match.service'
+
+/**
+ * Retrieves the match history of the authenticated user.
+ * Can be narrowed to one deck and/or to matches started after a date.
+ * @param {Request} req - Express request object with optional `deckId` and `since` query parameters and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with array of matches or error
+ * @throws {Error} Returns 400 for invalid filters, 500 for internal server errors
+ * @example
+ * GET /api/matches/mine?deckId=1&since=2026-01-01
+ * Response: [{ "id": 1, "roomId": "...", "status": "FINISHED", "winnerId": 1, "endReason": "score", "durationSeconds": 312, "participants": [...] }, ...]
+ */
+export const getUserMatches = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId
+    const { deckId, since } = req.query
+
+    const filters: { deckId?: number; since?: Date } = {}
+    if (deckId !== undefined) {
+      filters.deckId = parseInt(String(deckId))
+      if (isNaN(filters.deckId)) {
+        throw ValidationError.forField('deckId', 'Invalid deck ID')
+      }
+    }
+    if (since !== undefined) {
+      filters.since = new Date(String(since))
+      if (isNaN(filters.since.getTime())) {
+        throw ValidationError.forField('since', 'Invalid since date')
+      }
+    }
+
+    const matches = await MatchService.getUserMatches(userId, filters)
+
+    res.status(200).json(matches)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves a match with its full turn log.
+ * Only participants of the match can see it.
+ * @param {Request} req - Express request object with match ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with match details or error
+ * @throws {Error} Returns 400 for invalid match ID
+ * @throws {Error} Returns 404 if match not found or the user did not play in it
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/matches/1
+ * Response: { "id": 1, "status": "FINISHED", "participants": [...], "events": [{ "sequence": 0, "turn": 1, "type": "drawCards", ... }, ...] }
+ */
+export const getMatchById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const matchId = parseInt(req.params.id)
+    const userId = req.user!.userId
+
+    if (isNaN(matchId)) {
+      throw ValidationError.forField('id', 'Invalid match ID')
+    }
+
+    const match = await MatchService.getMatchById(matchId, userId)
+
+    res.status(200).json(match)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Streams the replay of a finished match as newline-delimited JSON.
+ * The first line describes the match, then each line holds the full game state
+ * after one action, so the client can step through the game as it arrives.
+ * If an action cannot be replayed, a last `{ "error": ... }` line ends the stream.
+ * @param {Request} req - Express request object with match ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} NDJSON stream of the replay or problem+json error
+ * @throws {Error} Returns 400 for invalid match ID
+ * @throws {Error} Returns 404 if match not found or the user did not play in it
+ * @throws {Error} Returns 409 if the match is not finished or cannot be replayed
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/matches/1/replay
+ * Response (application/x-ndjson):
+ * { "matchId": 1, "seed": "9f2c4e1a7b3d5f60", "winnerId": 1, "endReason": "score", "totalSteps": 42, "players": [...] }
+ * { "step": 0, "action": null, "state": { "turn": 1, "players": [...] } }
+ * { "step": 1, "action": { "sequence": 0, "turn": 1, "userId": 1, "type": "drawCards", ... }, "state": { ... } }
+ */
+export const getMatchReplay = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  let replay: Awaited<ReturnType<typeof MatchService.getReplay>>
+  try {
+    const matchId = parseInt(req.params.id)
+    const userId = req.user!.userId
+
+    if (isNaN(matchId)) {
+      throw ValidationError.forField('id', 'Invalid match ID')
+    }
+
+    replay = await MatchService.getReplay(matchId, userId)
+  } catch (error) {
+    next(error)
+    return
+  }
+
+  // Les en-têtes sont envoyés : une erreur de rejeu devient la dernière ligne du flux
+  res.status(200).type('application/x-ndjson')
+  res.write(JSON.stringify(replay.summary) + '\n')
+  try {
+    for (const step of replay.steps) {
+      res.write(JSON.stringify(step) + '\n')
+    }
+  } catch (error) {
+    console.error('Match replay error:', error)
+    const message =
+      error instanceof GameError ? error.message : 'Internal server error'
+    res.write(JSON.stringify({ error: message }) + '\n')
+  }
+  res.end()
+}
@@ -0,0 +1,197 @@
+import { prisma } from '../database'
+import { MatchStatus, Prisma } from '../generated/prisma/client'
+
+export interface MatchParticipantInput {
+  userId: number
+  deckId: number
+  deckName: string
+  // Place du joueur dans la partie : 0 pour l'hôte, 1 pour l'invité
+  seat: number
+  // Cartes du deck dans l'ordre d'avant le mélange
+  deckSnapshot: Prisma.InputJsonValue
+}
+
+export interface MatchEventInput {
+  sequence: number
+  turn: number
+  userId: number | null
+  type: string
+  payload?: Prisma.InputJsonValue
+}
+
+export interface MatchResultInput {
+  winnerId: number
+  endReason: string
+  endedAt: Date
+  durationSeconds: number
+  scores: { userId: number; score: number }[]
+}
+
+// Les decks de départ ne servent qu'au rejeu
+const participantsInclude = {
+  participants: {
+    omit: { deckSnapshot: true },
+    include: {
+      user: { select: { id: true, username: true } },
+    },
+  },
+} satisfies Prisma.MatchInclude
+
+export class MatchRepository {
+  /**
+   * Creates a match in progress with its two participants.
+   * @param {string} roomId - The ID of the game room
+   * @param {string} seed - The seed of the game
+   * @param {MatchParticipantInput[]} participants - The players and the decks they use
+   * @returns {Promise<any>} The created match
+   */
+  static async createMatch(
+    roomId: string,
+    seed: string,
+    participants: MatchParticipantInput[],
+  ) {
+    return await prisma.match.create({
+      data: {
+        roomId,
+        seed,
+        participants: {
+          create: participants,
+        },
+      },
+    })
+  }
+
+  /**
+   * Appends an action to the turn log of a match.
+   * @param {number} matchId - The ID of the match
+   * @param {MatchEventInput} event - The action played
+   * @returns {Promise<any>} The created event
+   */
+  static async addEvent(matchId: number, event: MatchEventInput) {
+    return await prisma.matchEvent.create({
+      data: {
+        matchId,
+        ...event,
+      },
+    })
+  }
+
+  /**
+   * Stores the result of a match and the final score of each participant.
+   * Only a match still in progress can be finished, so a result is never recorded twice.
+   * @param {number} matchId - The ID of the match
+   * @param {MatchResultInput} result - The winner, reason, end date, duration and scores
+   * @param {Prisma.TransactionClient} tx - The transaction the result is written in
+   * @returns {Promise<any>} The finished match
+   * @throws {Error} If the match does not exist or is already finished
+   */
+  static async finishMatch(
+    matchId: number,
+    result: MatchResultInput,
+    tx: Prisma.TransactionClient,
+  ) {
+    const { count } = await tx.match.updateMany({
+      where: { id: matchId, status: MatchStatus.IN_PROGRESS },
+      data: {
+        status: MatchStatus.FINISHED,
+        winnerId: result.winnerId,
+        endReason: result.endReason,
+        endedAt: result.endedAt,
+        durationSeconds: result.durationSeconds,
+      },
+    })
+    if (count === 0) {
+      throw new Error('Match not found or already finished')
+    }
+
+    for (const { userId, score } of result.scores) {
+      await tx.matchParticipant.update({
+        where: { matchId_userId: { matchId, userId } },
+        data: { score, isWinner: userId === result.winnerId },
+      })
+    }
+
+    return await tx.match.findUniqueOrThrow({ where: { id: matchId } })
+  }
+
+  /**
+   * Retrieves the matches a user played, most recent first.
+   * @param {number} userId - The ID of the user
+   * @param {object} filters - Optional deck and start date filters
+   * @returns {Promise<any[]>} The matches with their participants
+   */
+  static async getUserMatches(
+    userId: number,
+    filters: { deckId?: number; since?: Date } = {},
+  ) {
+    return await prisma.match.findMany({
+      where: {
+        participants: {
+          some: { userId, deckId: filters.deckId },
+        },
+        startedAt: filters.since ? { gte: filters.since } : undefined,
+      },
+      include: participantsInclude,
+      orderBy: { startedAt: 'desc' },
+    })
+  }
+
+  /**
+   * Retrieves a match with its full turn log, if the user took part in it.
+   * @param {number} matchId - The ID of the match
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any|null>} The match with participants and events, or null if not found
+   */
+  static async getMatchByIdAndUser(matchId: number, userId: number) {
+    return await prisma.match.findFirst({
+      where: {
+        id: matchId,
+        participants: { some: { userId } },
+      },
+      include: {
+        ...participantsInclude,
+        events: {
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    })
+  }
+
+  /**
+   * Retrieves what is needed to replay a match: seed, starting decks and turn log.
+   * @param {number} matchId - The ID of the match
+   * @param {number} userId - The ID of the user, who must have played the match
+   * @returns {Promise<any|null>} The match with its participants by seat and its events, or null if not found
+   */
+  static async getReplayData(matchId: number, userId: number) {
+    return await prisma.match.findFirst({
+      where: {
+        id: matchId,
+        participants: { some: { userId } },
+      },
+      include: {
+        participants: {
+          include: { user: { select: { id: true, username: true } } },
+          orderBy: { seat: 'asc' },
+        },
+        events: { orderBy: { sequence: 'asc' } },
+      },
+    })
+  }
+
+  /**
+   * Counts finished matches won and lost by each deck.
+   * @param {number[]} deckIds - The IDs of the decks
+   * @returns {Promise<any[]>} One row per deck and result with its count
+   */
+  static async getDeckResults(deckIds: number[]) {
+    return await prisma.matchParticipant.groupBy({
+      by: ['deckId', 'isWinner'],
+      where: {
+        deckId: { in: deckIds },
+        match: { status: MatchStatus.FINISHED },
+      },
+      _count: { _all: true },
+    })
+  }
+}
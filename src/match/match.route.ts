@@ -0,0 +1,61 @@
+import { Router } from 'express'
+import { authenticateToken } from '../Authentification/auth.route'
+import {
+  getMatchById,
+  getMatchReplay,
+  getUserMatches,
+} from './match.controleur'
+
+export const matchRouter = Router()
+
+// Appliquer le middleware d'authentification à toutes les routes
+matchRouter.use(authenticateToken)
+
+/**
+ * GET /api/matches/mine
+ * Retrieves the match history of the authenticated user, most recent first.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with optional `deckId` and `since` query parameters
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with array of matches or error
+ * @throws {Error} Returns 400 for invalid filters, 500 for internal server errors
+ * @example
+ * GET /api/matches/mine?since=2026-01-01
+ * Authorization: Bearer <token>
+ * Response: [{ "id": 1, "status": "FINISHED", "winnerId": 1, "participants": [...] }, ...]
+ */
+matchRouter.get('/mine', getUserMatches)
+
+/**
+ * GET /api/matches/:id
+ * Retrieves a match and its full turn log.
+ * Only participants of the match can see it.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with match ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with match details or error
+ * @throws {Error} Returns 400 for invalid match ID, 404 if match not found, 500 for internal server errors
+ * @example
+ * GET /api/matches/1
+ * Authorization: Bearer <token>
+ * Response: { "id": 1, "participants": [...], "events": [...] }
+ */
+matchRouter.get('/:id', getMatchById)
+
+/**
+ * GET /api/matches/:id/replay
+ * Streams the replay of a finished match: the game is rebuilt from its seed,
+ * starting decks and turn log, and the full state is sent after each action
+ * as newline-delimited JSON.
+ * Only participants of the match can replay it.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with match ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} NDJSON stream of the replay or JSON error
+ * @throws {Error} Returns 400 for invalid match ID, 404 if match not found, 409 if the match cannot be replayed, 500 for internal server errors
+ * @example
+ * GET /api/matches/1/replay
+ * Authorization: Bearer <token>
+ * Response: one JSON object per line, the match summary then { "step", "action", "state" } for each action
+ */
+matchRouter.get('/:id/replay', getMatchReplay)
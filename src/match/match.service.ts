@@ -0,0 +1,208 @@
+import { prisma } from '../database'
+import { ConflictError, NotFoundError } from '../errors/app.errors'
+import { Card, MatchStatus } from '../generated/prisma/client'
+import { GamePlayer } from '../sockets/game.engine'
+import { replayGame, UNKNOWN_PLAYER_ID } from '../sockets/game.replay'
+import { RatingService } from '../rating/rating.service'
+import {
+  MatchEventInput,
+  MatchParticipantInput,
+  MatchRepository,
+} from './match.repository'
+
+export interface DeckRecord {
+  wins: number
+  losses: number
+  played: number
+}
+
+// Nom affiché à la place d'un joueur dont le compte a été supprimé
+const DELETED_PLAYER_NAME = 'Deleted player'
+
+export class MatchService {
+  /**
+   * Records the start of a match between two players.
+   * @param {string} roomId - The ID of the game room
+   * @param {string} seed - The seed of the game
+   * @param {MatchParticipantInput[]} participants - The players and the decks they use
+   * @returns {Promise<any>} The created match
+   */
+  static async startMatch(
+    roomId: string,
+    seed: string,
+    participants: MatchParticipantInput[],
+  ) {
+    return await MatchRepository.createMatch(roomId, seed, participants)
+  }
+
+  /**
+   * Appends a turn action to the log of a match.
+   * @param {number} matchId - The ID of the match
+   * @param {MatchEventInput} event - The action played
+   * @returns {Promise<any>} The created event
+   */
+  static async recordEvent(matchId: number, event: MatchEventInput) {
+    return await MatchRepository.addEvent(matchId, event)
+  }
+
+  /**
+   * Records the result of a match, computes its duration and updates the players' ratings.
+   * The result and the rating changes are written in a single transaction.
+   * @param {number} matchId - The ID of the match
+   * @param {Date} startedAt - When the match started
+   * @param {number} winnerId - The ID of the winning user
+   * @param {string} endReason - Why the match ended
+   * @param {object[]} scores - The final score of each participant
+   * @returns {Promise<any>} The finished match
+   * @throws {Error} If the match is already finished (nothing is written)
+   */
+  static async finishMatch(
+    matchId: number,
+    startedAt: Date,
+    winnerId: number,
+    endReason: string,
+    scores: { userId: number; score: number }[],
+  ) {
+    const endedAt = new Date()
+    return await prisma.$transaction(async (tx) => {
+      const match = await MatchRepository.finishMatch(
+        matchId,
+        {
+          winnerId,
+          endReason,
+          endedAt,
+          durationSeconds: Math.round(
+            (endedAt.getTime() - startedAt.getTime()) / 1000,
+          ),
+          scores,
+        },
+        tx,
+      )
+
+      const loser = scores.find((score) => score.userId !== winnerId)
+      if (loser) {
+        await RatingService.applyMatchResult(
+          matchId,
+          winnerId,
+          loser.userId,
+          tx,
+        )
+      }
+      return match
+    })
+  }
+
+  /**
+   * Retrieves the match history of a user.
+   * @param {number} userId - The ID of the user
+   * @param {object} filters - Optional deck and start date filters
+   * @returns {Promise<any[]>} The matches, most recent first
+   */
+  static async getUserMatches(
+    userId: number,
+    filters: { deckId?: number; since?: Date } = {},
+  ) {
+    return await MatchRepository.getUserMatches(userId, filters)
+  }
+
+  /**
+   * Retrieves a match with its full turn log.
+   * Only participants of the match can see it.
+   * @param {number} matchId - The ID of the match
+   * @param {number} userId - The ID of the requesting user
+   * @returns {Promise<any>} The match with participants and events
+   * @throws {NotFoundError} If match not found or the user did not play in it
+   */
+  static async getMatchById(matchId: number, userId: number) {
+    const match = await MatchRepository.getMatchByIdAndUser(matchId, userId)
+    if (!match) {
+      throw new NotFoundError('Match not found', { code: 'MATCH_NOT_FOUND' })
+    }
+    return match
+  }
+
+  /**
+   * Prepares the replay of a finished match from its seed, starting decks and turn log.
+   * Only participants of the match can replay it.
+   * @param {number} matchId - The ID of the match
+   * @param {number} userId - The ID of the requesting user
+   * @returns {Promise<object>} The match summary and a generator of the state after each action
+   * @throws {NotFoundError} If match not found
+   * @throws {ConflictError} If the match is not finished or was recorded without a seed
+   */
+  static async getReplay(matchId: number, userId: number) {
+    const match = await MatchRepository.getReplayData(matchId, userId)
+    if (!match) {
+      throw new NotFoundError('Match not found', { code: 'MATCH_NOT_FOUND' })
+    }
+    if (match.status !== MatchStatus.FINISHED) {
+      throw new ConflictError('Replay is only available for finished matches', {
+        code: 'MATCH_NOT_FINISHED',
+      })
+    }
+    if (
+      !match.seed ||
+      match.participants.length !== 2 ||
+      match.participants.some((participant) => !participant.deckSnapshot)
+    ) {
+      throw new ConflictError(
+        'Match was recorded without a seed and cannot be replayed',
+        { code: 'REPLAY_UNAVAILABLE' },
+      )
+    }
+
+    // Le compte d'un des joueurs a pu être supprimé : sa place et ses actions restent rejouables
+    const players = match.participants.map((participant) => ({
+      userId: participant.userId ?? UNKNOWN_PLAYER_ID,
+      username: participant.user?.username ?? DELETED_PLAYER_NAME,
+      socketId: '',
+      deckId: participant.deckId ?? 0,
+      deckName: participant.deckName,
+      cards: participant.deckSnapshot as unknown as Card[],
+    })) as [GamePlayer, GamePlayer]
+
+    return {
+      summary: {
+        matchId: match.id,
+        seed: match.seed,
+        winnerId: match.winnerId,
+        endReason: match.endReason,
+        totalSteps: match.events.length,
+        players: players.map(({ userId, username, deckId, deckName }) => ({
+          userId,
+          username,
+          deckId,
+          deckName,
+        })),
+      },
+      steps: replayGame(match.seed, players, match.events),
+    }
+  }
+
+  /**
+   * Computes the win/loss record of each deck over finished matches.
+   * @param {number[]} deckIds - The IDs of the decks
+   * @returns {Promise<Map<number, DeckRecord>>} The record of each deck, decks without matches included
+   */
+  static async getDeckRecords(deckIds: number[]) {
+    const records = new Map<number, DeckRecord>(
+      deckIds.map((deckId) => [deckId, { wins: 0, losses: 0, played: 0 }]),
+    )
+    if (deckIds.length === 0) {
+      return records
+    }
+
+    const results = await MatchRepository.getDeckResults(deckIds)
+    for (const result of results) {
+      const record = records.get(result.deckId!)
+      if (!record) continue
+      if (result.isWinner) {
+        record.wins += result._count._all
+      } else {
+        record.losses += result._count._all
+      }
+      record.played += result._count._all
+    }
+    return records
+  }
+}
@@ -0,0 +1,87 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import { TooManyRequestsError } from '../errors/app.errors'
+import { RateLimitStore, rateLimitStore } from './rate-limit.store'
+
+export interface RateLimitOptions {
+  // Nom de la limite, préfixe de ses clés dans le store
+  name: string
+  // Nombre de requêtes acceptées par fenêtre (0 désactive la limite)
+  limit: number
+  windowMs: number
+  // Clé comptée pour une requête (IP, utilisateur...), undefined pour ne pas la compter
+  key: (req: Request) => string | undefined
+  store?: RateLimitStore
+  message?: string
+}
+
+/**
+ * Counts the requests by client IP.
+ * @param {Request} req - Express request object
+ * @returns {string | undefined} The IP of the client
+ */
+export const byIp = (req: Request) => req.ip
+
+/**
+ * Counts the requests by authenticated user, to use after authenticateToken.
+ * @param {Request} req - Express request object
+ * @returns {string | undefined} The ID of the user, or undefined if the request is not authenticated
+ */
+export const byUser = (req: Request) =>
+  req.user ? String(req.user.userId) : undefined
+
+/**
+ * Builds a middleware limiting the number of requests per key over a fixed window.
+ * Every counted response carries the RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining
+ * and RateLimit-Reset headers; beyond the limit, the request fails with a 429 and a Retry-After header.
+ * @param {RateLimitOptions} options - The limit, its window and the counted key
+ * @returns {RequestHandler} The rate-limiting middleware
+ * @example
+ * authRouter.post('/sign-in', rateLimit({ name: 'auth-ip', limit: 20, windowMs: 15 * 60 * 1000, key: byIp }), signIn)
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const {
+    name,
+    limit,
+    windowMs,
+    key,
+    store = rateLimitStore,
+    message = 'Too many requests, please try again later',
+  } = options
+  const policy = `${limit};w=${Math.ceil(windowMs / 1000)}`
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = key(req)
+    if (limit <= 0 || id === undefined) {
+      next()
+      return
+    }
+
+    try {
+      const { count, resetAt } = await store.increment(
+        `${name}:${id}`,
+        windowMs,
+      )
+      const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000))
+
+      res.set({
+        'RateLimit-Policy': policy,
+        'RateLimit-Limit': String(limit),
+        'RateLimit-Remaining': String(Math.max(0, limit - count)),
+        'RateLimit-Reset': String(resetSeconds),
+      })
+
+      if (count > limit) {
+        next(
+          new TooManyRequestsError(message, {
+            code: 'RATE_LIMITED',
+            retryAfter: resetSeconds,
+          }),
+        )
+        return
+      }
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
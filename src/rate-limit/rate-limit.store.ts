@@ -0,0 +1,86 @@
+/**
+ * Compteurs de la limitation de débit
+ * L'état passe par une interface : la version en mémoire suffit pour un seul serveur et
+ * pour les tests, une version partagée (Redis, base de données...) pourra l'implémenter
+ * pour plusieurs instances.
+ */
+
+export interface RateLimitCounter {
+  // Nombre de coups dans la fenêtre courante
+  count: number
+  // Fin de la fenêtre, en millisecondes
+  resetAt: number
+}
+
+export interface RateLimitStore {
+  /**
+   * Counts a hit for a key. A new window starts when the key has none or its window is over.
+   * @param {string} key - The counted key (ex. "sign-in-ip:127.0.0.1")
+   * @param {number} windowMs - The length of a new window, in milliseconds
+   * @returns {Promise<RateLimitCounter>} The counter after the hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>
+
+  /**
+   * Retrieves the counter of a key.
+   * @param {string} key - The counted key
+   * @returns {Promise<RateLimitCounter | undefined>} The counter, or undefined if its window is over
+   */
+  get(key: string): Promise<RateLimitCounter | undefined>
+
+  /**
+   * Deletes the counter of a key.
+   * @param {string} key - The counted key
+   * @returns {Promise<void>} Resolves once the counter is deleted
+   */
+  reset(key: string): Promise<void>
+}
+
+// Les compteurs expirés sont purgés au plus une fois par minute
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>()
+  private nextSweepAt = 0
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const current = this.counters.get(key)
+    const counter =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs }
+    this.counters.set(key, counter)
+    return counter
+  }
+
+  async get(key: string): Promise<RateLimitCounter | undefined> {
+    const counter = this.counters.get(key)
+    return counter && counter.resetAt > Date.now() ? counter : undefined
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key)
+  }
+
+  /**
+   * Deletes the expired counters, so that the map does not grow forever.
+   * @param {number} now - The current time, in milliseconds
+   */
+  private sweep(now: number) {
+    if (now < this.nextSweepAt) {
+      return
+    }
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key)
+      }
+    }
+  }
+}
+
+// Compteurs partagés par les limites de l'API
+export const rateLimitStore: RateLimitStore = new InMemoryRateLimitStore()
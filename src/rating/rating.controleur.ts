@@ -0,0 +1,112 @@
+import { NextFunction, Request, Response } from 'express'
+import { FieldError, ValidationError } from '../errors/app.errors'
+import { RatingService } from './rating.service'
+
+export const DEFAULT_LIMIT = 20
+export const MAX_LIMIT = 100
+
+/**
+ * Parses a positive integer query parameter and records an error if it is invalid.
+ * @param {string} name - The parameter name, used in error messages
+ * @param {unknown} raw - The raw query value
+ * @param {number} fallback - The value used when the parameter is absent
+ * @param {FieldError[]} errors - The error list to append to
+ * @returns {number} The parsed value, or the fallback
+ */
+function parsePositiveInteger(
+  name: string,
+  raw: unknown,
+  fallback: number,
+  errors: FieldError[],
+): number {
+  if (raw === undefined) return fallback
+
+  const parsed = Number(raw)
+  if (String(raw).trim() === '' || !Number.isInteger(parsed) || parsed < 1) {
+    errors.push({
+      field: name,
+      message: `${name} must be an integer greater than or equal to 1`,
+    })
+    return fallback
+  }
+  return parsed
+}
+
+/**
+ * Retrieves a page of the leaderboard, best rating first.
+ * @param {Request} req - Express request object with optional `page` and `limit` query parameters
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the ranked players or error
+ * @throws {Error} Returns 400 with the list of invalid parameters
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/leaderboard?page=1&limit=10
+ * Response: { "data": [{ "rank": 1, "userId": 2, "username": "blue", "rating": 1052, "ratedGames": 4 }, ...], "total": 2, "page": 1, "limit": 10, "totalPages": 1 }
+ */
+export const getLeaderboard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const errors: FieldError[] = []
+    const page = parsePositiveInteger('page', req.query.page, 1, errors)
+    const limit = parsePositiveInteger(
+      'limit',
+      req.query.limit,
+      DEFAULT_LIMIT,
+      errors,
+    )
+    if (limit > MAX_LIMIT) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be less than or equal to ${MAX_LIMIT}`,
+      })
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid query parameters', { errors })
+    }
+
+    const leaderboard = await RatingService.getLeaderboard(page, limit)
+
+    res.status(200).json(leaderboard)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves the rating, rank and rating history of a user.
+ * @param {Request} req - Express request object with user ID in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the rating or error
+ * @throws {Error} Returns 400 for invalid user ID
+ * @throws {Error} Returns 404 if user not found
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/users/1/rating
+ * Response: { "userId": 1, "username": "red", "rating": 988, "ratedGames": 1, "rank": 2, "history": [{ "matchId": 1, "ratingBefore": 1000, "ratingAfter": 988, "delta": -12, "createdAt": "..." }] }
+ */
+export const getUserRating = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.id)
+
+    if (isNaN(userId)) {
+      throw ValidationError.forField('id', 'Invalid user ID')
+    }
+
+    const rating = await RatingService.getUserRating(userId)
+
+    res.status(200).json(rating)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
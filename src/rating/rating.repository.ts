@@ -0,0 +1,111 @@
+import { prisma } from '../database'
+import { Prisma } from '../generated/prisma/client'
+import { RatingChange } from '../utils/rating.util'
+
+const ratedPlayerSelect = {
+  id: true,
+  username: true,
+  rating: true,
+  ratedGames: true,
+} satisfies Prisma.UserSelect
+
+export class RatingRepository {
+  /**
+   * Locks the rows of the players of a match and reads their ratings.
+   * Other transactions updating these players wait until this one ends,
+   * so two results of the same player are never computed from the same rating.
+   * @param {number[]} userIds - The IDs of the players
+   * @param {Prisma.TransactionClient} tx - The transaction holding the locks
+   * @returns {Promise<any[]>} The players with their rating and number of rated games
+   */
+  static async lockPlayers(userIds: number[], tx: Prisma.TransactionClient) {
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" IN (${Prisma.join(userIds)}) ORDER BY "id" FOR UPDATE`
+    return await tx.user.findMany({
+      where: { id: { in: userIds } },
+      select: ratedPlayerSelect,
+    })
+  }
+
+  /**
+   * Applies a rating change to a player and appends it to their history.
+   * @param {number} userId - The ID of the player
+   * @param {number} matchId - The match that caused the change
+   * @param {RatingChange} change - The rating before and after the match
+   * @param {Prisma.TransactionClient} tx - The transaction the change is written in
+   * @returns {Promise<any>} The created history entry
+   */
+  static async saveRatingChange(
+    userId: number,
+    matchId: number,
+    change: RatingChange,
+    tx: Prisma.TransactionClient,
+  ) {
+    await tx.user.update({
+      where: { id: userId },
+      data: { rating: change.ratingAfter, ratedGames: { increment: 1 } },
+    })
+    return await tx.ratingHistory.create({
+      data: { userId, matchId, ...change },
+    })
+  }
+
+  /**
+   * Retrieves a page of the players who played at least one rated match, best rating first.
+   * @param {number} skip - The number of players to skip
+   * @param {number} take - The number of players to return
+   * @returns {Promise<[any[], number]>} The players of the page and the total number of ranked players
+   */
+  static async getLeaderboard(skip: number, take: number) {
+    const where = { ratedGames: { gt: 0 } } satisfies Prisma.UserWhereInput
+    return await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: ratedPlayerSelect,
+        orderBy: [{ rating: 'desc' }, { id: 'asc' }],
+        skip,
+        take,
+      }),
+      prisma.user.count({ where }),
+    ])
+  }
+
+  /**
+   * Retrieves the rating of a player with their rating history, most recent first.
+   * @param {number} userId - The ID of the player
+   * @returns {Promise<any|null>} The player with their history, or null if not found
+   */
+  static async getUserRating(userId: number) {
+    return await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...ratedPlayerSelect,
+        ratingHistory: {
+          select: {
+            matchId: true,
+            ratingBefore: true,
+            ratingAfter: true,
+            delta: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    })
+  }
+
+  /**
+   * Counts the ranked players with a better rating, or the same rating and a lower ID.
+   * Matches the ordering of the leaderboard.
+   * @param {number} userId - The ID of the player
+   * @param {number} rating - The rating of the player
+   * @returns {Promise<number>} The number of players ranked above
+   */
+  static async countPlayersAbove(userId: number, rating: number) {
+    return await prisma.user.count({
+      where: {
+        ratedGames: { gt: 0 },
+        OR: [{ rating: { gt: rating } }, { rating, id: { lt: userId } }],
+      },
+    })
+  }
+}
@@ -0,0 +1,32 @@
+import { Router } from 'express'
+import { getLeaderboard, getUserRating } from './rating.controleur'
+
+export const leaderboardRouter = Router()
+export const userRatingRouter = Router()
+
+/**
+ * GET /api/leaderboard
+ * Retrieves the players ranked by rating, best first, with pagination.
+ * Only players with at least one rated match appear.
+ * @param {Request} req - Express request object with optional `page` and `limit` query parameters
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the page of ranked players or error
+ * @throws {Error} Returns 400 for invalid pagination parameters, 500 for internal server errors
+ * @example
+ * GET /api/leaderboard?page=1&limit=20
+ * Response: { "data": [{ "rank": 1, "userId": 2, "username": "blue", "rating": 1052, "ratedGames": 4 }], "total": 1, "page": 1, "limit": 20, "totalPages": 1 }
+ */
+leaderboardRouter.get('/', getLeaderboard)
+
+/**
+ * GET /api/users/:id/rating
+ * Retrieves the rating, rank and rating history of a user.
+ * @param {Request} req - Express request object with user ID in params
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the rating and its history or error
+ * @throws {Error} Returns 400 for invalid user ID, 404 if user not found, 500 for internal server errors
+ * @example
+ * GET /api/users/1/rating
+ * Response: { "userId": 1, "username": "red", "rating": 1012, "ratedGames": 1, "rank": 1, "history": [...] }
+ */
+userRatingRouter.get('/:id/rating', getUserRating)
@@ -0,0 +1,97 @@
+import { NotFoundError } from '../errors/app.errors'
+import { Prisma } from '../generated/prisma/client'
+import { calculateMatchRatings } from '../utils/rating.util'
+import { RatingRepository } from './rating.repository'
+
+export class RatingService {
+  /**
+   * Updates the ratings of both players of a finished match.
+   * Runs inside the transaction that records the result, so the result and
+   * the ratings are stored together or not at all.
+   * @param {number} matchId - The ID of the finished match
+   * @param {number} winnerId - The ID of the winning user
+   * @param {number} loserId - The ID of the losing user
+   * @param {Prisma.TransactionClient} tx - The transaction recording the result
+   * @returns {Promise<object>} The rating change of the winner and of the loser
+   * @throws {Error} If one of the players does not exist
+   */
+  static async applyMatchResult(
+    matchId: number,
+    winnerId: number,
+    loserId: number,
+    tx: Prisma.TransactionClient,
+  ) {
+    const players = await RatingRepository.lockPlayers([winnerId, loserId], tx)
+    const winner = players.find((player) => player.id === winnerId)
+    const loser = players.find((player) => player.id === loserId)
+    if (!winner || !loser) {
+      throw new Error('Player not found')
+    }
+
+    const changes = calculateMatchRatings(
+      { rating: winner.rating, gamesPlayed: winner.ratedGames },
+      { rating: loser.rating, gamesPlayed: loser.ratedGames },
+    )
+    await RatingRepository.saveRatingChange(
+      winnerId,
+      matchId,
+      changes.winner,
+      tx,
+    )
+    await RatingRepository.saveRatingChange(loserId, matchId, changes.loser, tx)
+    return changes
+  }
+
+  /**
+   * Retrieves a page of the leaderboard.
+   * Only players with at least one rated match are ranked.
+   * @param {number} page - The page number, starting at 1
+   * @param {number} limit - The number of players per page
+   * @returns {Promise<object>} The ranked players of the page with pagination info
+   */
+  static async getLeaderboard(page: number, limit: number) {
+    const skip = (page - 1) * limit
+    const [players, total] = await RatingRepository.getLeaderboard(skip, limit)
+
+    return {
+      data: players.map((player, index) => ({
+        rank: skip + index + 1,
+        userId: player.id,
+        username: player.username,
+        rating: player.rating,
+        ratedGames: player.ratedGames,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    }
+  }
+
+  /**
+   * Retrieves the rating, rank and rating history of a player.
+   * @param {number} userId - The ID of the player
+   * @returns {Promise<object>} The player's rating, rank (null before any rated match) and history
+   * @throws {NotFoundError} If user not found
+   */
+  static async getUserRating(userId: number) {
+    const user = await RatingRepository.getUserRating(userId)
+    if (!user) {
+      throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' })
+    }
+
+    const rank =
+      user.ratedGames > 0
+        ? (await RatingRepository.countPlayersAbove(user.id, user.rating)) + 1
+        : null
+
+    return {
+      userId: user.id,
+      username: user.username,
+      rating: user.rating,
+      ratedGames: user.ratedGames,
+      rank,
+      history: user.ratingHistory,
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { Card } from '../generated/prisma/client'
+import { calculateDamage, getWeakness } from '../utils/rules.util'
+import { randomInt, Rng } from '../utils/random.util'
+import { ActiveCard, Game, GamePlayer, HAND_SIZE } from './game.engine'
+
+/**
+ * Adversaire contrôlé par le serveur
+ * Choisit les actions du bot à partir de l'état de la partie, sans jamais tricher :
+ * seules les informations visibles par un joueur (sa main, les cartes actives) sont utilisées.
+ */
+
+export const BOT_DIFFICULTIES = ['easy', 'hard'] as const
+
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number]
+
+// Identifiant réservé au bot : les IDs des utilisateurs commencent à 1
+export const BOT_USER_ID = 0
+
+export type BotAction =
+  | { type: 'drawCards' }
+  | { type: 'playCard'; cardIndex: number }
+  | { type: 'attack' }
+  | { type: 'endTurn' }
+
+// Bonus du joueur glouton pour une carte qui exploite la faiblesse de l'adversaire
+const WEAKNESS_BONUS = 20
+
+/**
+ * Checks that a value is a supported bot difficulty.
+ * @param {unknown} value - The difficulty sent by the client
+ * @returns {boolean} True if the value is "easy" or "hard"
+ */
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty)
+}
+
+/**
+ * Builds the bot player of a single-player game.
+ * @param {string} roomId - The room the bot plays in
+ * @param {BotDifficulty} difficulty - The difficulty of the bot
+ * @param {Card[]} cards - The deck of the bot
+ * @returns {GamePlayer} The bot, ready to join the game
+ */
+export function createBotPlayer(
+  roomId: string,
+  difficulty: BotDifficulty,
+  cards: Card[],
+): GamePlayer {
+  return {
+    userId: BOT_USER_ID,
+    username: `Bot (${difficulty})`,
+    socketId: `bot:${roomId}`,
+    deckId: 0,
+    deckName: `Bot deck (${difficulty})`,
+    cards,
+  }
+}
+
+/**
+ * Picks the deck of the bot: distinct random cards of the catalog.
+ * @param {Card[]} catalog - Every card that can be played
+ * @param {number} size - The number of cards of the deck
+ * @param {Rng} [rng] - The generator to pick the cards with
+ * @returns {Card[]} The deck of the bot
+ */
+export function buildBotDeck(
+  catalog: Card[],
+  size: number,
+  rng: Rng = Math.random,
+): Card[] {
+  const pool = [...catalog]
+  const deck: Card[] = []
+  while (deck.length < size && pool.length > 0) {
+    deck.push(pool.splice(randomInt(rng, pool.length), 1)[0])
+  }
+  return deck
+}
+
+/**
+ * Lists the actions the current player can legally play.
+ * Ending the turn is only listed when nothing else can be done, so the bot never stalls.
+ * @param {Game} game - The game, on the bot's turn
+ * @returns {BotAction[]} The legal actions
+ */
+export function getLegalActions(game: Game): BotAction[] {
+  const self = game.currentPlayer
+  const opponent = game.opponentPlayer
+  const actions: BotAction[] = []
+
+  if (self.hand.length < HAND_SIZE && self.deck.length > 0) {
+    actions.push({ type: 'drawCards' })
+  }
+  if (!self.activeCard) {
+    self.hand.forEach((_, cardIndex) =>
+      actions.push({ type: 'playCard', cardIndex }),
+    )
+  }
+  if (self.activeCard && opponent.activeCard) {
+    actions.push({ type: 'attack' })
+  }
+  return actions.length > 0 ? actions : [{ type: 'endTurn' }]
+}
+
+/**
+ * Scores a card of the hand against the opponent's active card.
+ * Damage dealt counts more than damage taken, and exploiting a weakness earns a bonus.
+ * Without an opposing card, the strongest card is favoured.
+ * @param {Card} card - The card the bot could play
+ * @param {ActiveCard | null} target - The opponent's active card
+ * @returns {number} The score of the card, higher is better
+ */
+export function scoreCard(card: Card, target: ActiveCard | null): number {
+  if (!target) {
+    return card.attack + card.hp / 2
+  }
+
+  const dealt = Math.min(
+    target.currentHp,
+    calculateDamage(
+      card.attack,
+      card.type,
+      target.card.type,
+      target.card.defense,
+    ),
+  )
+  const taken = calculateDamage(
+    target.card.attack,
+    target.card.type,
+    card.type,
+    card.defense,
+  )
+  const weaknessBonus =
+    getWeakness(target.card.type) === card.type ? WEAKNESS_BONUS : 0
+
+  return dealt * 2 - taken + weaknessBonus + card.hp / 10
+}
+
+/**
+ * Chooses the next action of a greedy bot: draw a full hand, play the card
+ * with the best type matchup, then attack whenever possible.
+ * @param {Game} game - The game, on the bot's turn
+ * @returns {BotAction} The chosen action
+ */
+function chooseGreedyAction(game: Game): BotAction {
+  const actions = getLegalActions(game)
+  const find = (type: BotAction['type']) =>
+    actions.find((action) => action.type === type)
+
+  const self = game.currentPlayer
+  // Piocher avant de jouer pour avoir le plus de choix possible
+  if (!self.activeCard && find('drawCards')) {
+    return { type: 'drawCards' }
+  }
+
+  if (!self.activeCard && self.hand.length > 0) {
+    const target = game.opponentPlayer.activeCard
+    let bestIndex = 0
+    self.hand.forEach((card, index) => {
+      if (scoreCard(card, target) > scoreCard(self.hand[bestIndex], target)) {
+        bestIndex = index
+      }
+    })
+    return { type: 'playCard', cardIndex: bestIndex }
+  }
+
+  return find('attack') ?? find('drawCards') ?? { type: 'endTurn' }
+}
+
+/**
+ * Chooses the next action of the bot.
+ * - easy: a random legal action
+ * - hard: a greedy action favouring type advantage
+ * @param {Game} game - The game, on the bot's turn
+ * @param {BotDifficulty} difficulty - The difficulty of the bot
+ * @param {Rng} [rng] - The generator used by the easy bot
+ * @returns {BotAction} The action to play
+ * @example
+ * chooseBotAction(game, 'hard')
+ * // { type: 'playCard', cardIndex: 2 }
+ */
+export function chooseBotAction(
+  game: Game,
+  difficulty: BotDifficulty,
+  rng: Rng = Math.random,
+): BotAction {
+  if (difficulty === 'hard') {
+    return chooseGreedyAction(game)
+  }
+  const actions = getLegalActions(game)
+  return actions[randomInt(rng, actions.length)]
+}
@@ -0,0 +1,364 @@
+import { Card } from '../generated/prisma/client'
+import { createRng, randomInt, randomSeed, Rng } from '../utils/random.util'
+import { calculateDamage } from '../utils/rules.util'
+
+/**
+ * Moteur de jeu
+ * Contient l'état d'une partie et la validation de toutes les actions des joueurs
+ * Tout le hasard passe par un générateur initialisé avec la graine de la partie :
+ * la même graine, les mêmes decks et les mêmes actions redonnent toujours le même état.
+ */
+
+export const HAND_SIZE = 5
+export const POINTS_TO_WIN = 3
+
+export class GameError extends Error {}
+
+export interface ActiveCard {
+  card: Card
+  currentHp: number
+}
+
+export interface PlayerState {
+  userId: number
+  username: string
+  socketId: string
+  deckId: number
+  deckName: string
+  deck: Card[]
+  hand: Card[]
+  activeCard: ActiveCard | null
+  discard: Card[]
+  score: number
+}
+
+export interface GamePlayer {
+  userId: number
+  username: string
+  socketId: string
+  deckId: number
+  deckName: string
+  cards: Card[]
+}
+
+export interface AttackResult {
+  damage: number
+  knockedOut: boolean
+}
+
+export type GameStatus = 'playing' | 'finished'
+
+export type GameEndReason = 'score' | 'outOfCards' | 'forfeit'
+
+/**
+ * Mélange un tableau (Fisher-Yates) sans modifier l'original.
+ * @param {T[]} items - The items to shuffle
+ * @param {Rng} rng - The generator of the game
+ * @returns {T[]} A shuffled copy of the items
+ */
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1)
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export class Game {
+  readonly seed: string
+  // Joueurs et decks tels qu'ils étaient avant le mélange, pour rejouer la partie
+  readonly initialPlayers: [GamePlayer, GamePlayer]
+  readonly players: [PlayerState, PlayerState]
+  currentPlayerIndex = 0
+  turn = 1
+  status: GameStatus = 'playing'
+  winnerId: number | null = null
+  endReason: GameEndReason | null = null
+
+  /**
+   * Starts a new game between two players. The first player (room host) begins.
+   * @param {GamePlayer} host - The player who created the room
+   * @param {GamePlayer} guest - The player who joined the room
+   * @param {string} [seed] - Seed of the game, a random one by default
+   */
+  constructor(
+    host: GamePlayer,
+    guest: GamePlayer,
+    seed: string = randomSeed(),
+  ) {
+    this.seed = seed
+    this.initialPlayers = [host, guest]
+    const rng = createRng(seed)
+    this.players = [Game.createPlayer(host, rng), Game.createPlayer(guest, rng)]
+  }
+
+  private static createPlayer(player: GamePlayer, rng: Rng): PlayerState {
+    return {
+      userId: player.userId,
+      username: player.username,
+      socketId: player.socketId,
+      deckId: player.deckId,
+      deckName: player.deckName,
+      deck: shuffle(player.cards, rng),
+      hand: [],
+      activeCard: null,
+      discard: [],
+      score: 0,
+    }
+  }
+
+  get currentPlayer(): PlayerState {
+    return this.players[this.currentPlayerIndex]
+  }
+
+  get opponentPlayer(): PlayerState {
+    return this.players[1 - this.currentPlayerIndex]
+  }
+
+  /**
+   * Finds a player of this game by user ID.
+   * @param {number} userId - The ID of the user
+   * @returns {PlayerState | undefined} The player state, or undefined if the user is not in the game
+   */
+  getPlayer(userId: number): PlayerState | undefined {
+    return this.players.find((player) => player.userId === userId)
+  }
+
+  /**
+   * Draws cards from the player's deck until the hand holds HAND_SIZE cards.
+   * @param {number} userId - The ID of the player drawing
+   * @returns {number} The number of cards drawn
+   * @throws {GameError} If it is not the player's turn or the deck is empty
+   */
+  drawCards(userId: number): number {
+    const player = this.assertTurn(userId)
+
+    if (player.hand.length >= HAND_SIZE) {
+      throw new GameError(`Your hand is already full (${HAND_SIZE} cards)`)
+    }
+    if (player.deck.length === 0) {
+      throw new GameError('Your deck is empty')
+    }
+
+    let drawn = 0
+    while (player.hand.length < HAND_SIZE && player.deck.length > 0) {
+      player.hand.push(player.deck.shift()!)
+      drawn++
+    }
+    return drawn
+  }
+
+  /**
+   * Puts a card from the player's hand on the field as their active card.
+   * @param {number} userId - The ID of the player
+   * @param {number} cardIndex - Index of the card in the player's hand
+   * @returns {Card} The card played
+   * @throws {GameError} If it is not the player's turn, the index is invalid or a card is already active
+   */
+  playCard(userId: number, cardIndex: number): Card {
+    const player = this.assertTurn(userId)
+
+    if (
+      !Number.isInteger(cardIndex) ||
+      cardIndex < 0 ||
+      cardIndex >= player.hand.length
+    ) {
+      throw new GameError('Invalid card index')
+    }
+    if (player.activeCard) {
+      throw new GameError('You already have an active card')
+    }
+
+    const [card] = player.hand.splice(cardIndex, 1)
+    player.activeCard = { card, currentHp: card.hp }
+    return card
+  }
+
+  /**
+   * Attacks the opponent's active card with the player's active card.
+   * Knocked out cards go to the discard pile and give one point to the attacker.
+   * The turn passes to the opponent after the attack.
+   * @param {number} userId - The ID of the attacking player
+   * @returns {AttackResult} The damage dealt and whether the defender was knocked out
+   * @throws {GameError} If it is not the player's turn or either side has no active card
+   */
+  attack(userId: number): AttackResult {
+    const attacker = this.assertTurn(userId)
+    const defender = this.opponentPlayer
+
+    if (!attacker.activeCard) {
+      throw new GameError('You have no active card')
+    }
+    if (!defender.activeCard) {
+      throw new GameError('Your opponent has no active card')
+    }
+
+    const damage = calculateDamage(
+      attacker.activeCard.card.attack,
+      attacker.activeCard.card.type,
+      defender.activeCard.card.type,
+      defender.activeCard.card.defense,
+    )
+    defender.activeCard.currentHp = Math.max(
+      0,
+      defender.activeCard.currentHp - damage,
+    )
+
+    const knockedOut = defender.activeCard.currentHp <= 0
+    if (knockedOut) {
+      defender.discard.push(defender.activeCard.card)
+      defender.activeCard = null
+      attacker.score++
+
+      // Victoire au score ou lorsque l'adversaire n'a plus de cartes
+      if (attacker.score >= POINTS_TO_WIN) {
+        this.finish(attacker.userId, 'score')
+        return { damage, knockedOut }
+      }
+      if (Game.isOutOfCards(defender)) {
+        this.finish(attacker.userId, 'outOfCards')
+        return { damage, knockedOut }
+      }
+    }
+
+    this.switchTurn()
+    return { damage, knockedOut }
+  }
+
+  /**
+   * Ends the player's turn and gives the hand to the opponent.
+   * @param {number} userId - The ID of the player ending their turn
+   * @throws {GameError} If it is not the player's turn
+   */
+  endTurn(userId: number): void {
+    this.assertTurn(userId)
+    this.switchTurn()
+  }
+
+  /**
+   * Ends the game in favour of the given player.
+   * @param {number} winnerId - The ID of the winning user
+   * @param {GameEndReason} reason - Why the game ended
+   */
+  finish(winnerId: number, reason: GameEndReason): void {
+    this.status = 'finished'
+    this.winnerId = winnerId
+    this.endReason = reason
+  }
+
+  /**
+   * Builds the game state as seen by one player.
+   * The opponent's hand and both decks are never exposed, only their sizes.
+   * @param {number} userId - The ID of the player the view is built for
+   * @returns {object} The player's view of the game
+   */
+  getStateFor(userId: number) {
+    const self = this.getPlayer(userId)
+    const opponent = this.players.find((player) => player.userId !== userId)!
+
+    return {
+      turn: this.turn,
+      status: this.status,
+      currentPlayerId: this.currentPlayer.userId,
+      currentPlayerSocketId: this.currentPlayer.socketId,
+      isYourTurn: this.currentPlayer.userId === userId,
+      winnerId: this.winnerId,
+      endReason: this.endReason,
+      you: self
+        ? {
+            userId: self.userId,
+            username: self.username,
+            hand: self.hand,
+            activeCard: self.activeCard,
+            deckCount: self.deck.length,
+            discard: self.discard,
+            score: self.score,
+          }
+        : null,
+      opponent: {
+        userId: opponent.userId,
+        username: opponent.username,
+        handCount: opponent.hand.length,
+        activeCard: opponent.activeCard,
+        deckCount: opponent.deck.length,
+        discard: opponent.discard,
+        score: opponent.score,
+      },
+    }
+  }
+
+  /**
+   * Builds the game state as seen by a spectator.
+   * Only public information is exposed: active cards, HP, discard piles and scores,
+   * never the hands or the order of the decks.
+   * @returns {object} The public view of the game
+   */
+  getPublicState() {
+    return {
+      turn: this.turn,
+      status: this.status,
+      currentPlayerId: this.currentPlayer.userId,
+      winnerId: this.winnerId,
+      endReason: this.endReason,
+      players: this.players.map((player) => ({
+        userId: player.userId,
+        username: player.username,
+        handCount: player.hand.length,
+        activeCard: player.activeCard,
+        deckCount: player.deck.length,
+        discard: player.discard,
+        score: player.score,
+      })),
+    }
+  }
+
+  /**
+   * Builds the full game state, both hands included, as a copy that later actions do not change.
+   * Only meant for replays of finished games.
+   * @returns {object} The state of the game and of both players
+   */
+  getFullState() {
+    return {
+      turn: this.turn,
+      status: this.status,
+      currentPlayerId: this.currentPlayer.userId,
+      winnerId: this.winnerId,
+      endReason: this.endReason,
+      players: this.players.map((player) => ({
+        userId: player.userId,
+        username: player.username,
+        hand: [...player.hand],
+        activeCard: player.activeCard && { ...player.activeCard },
+        deckCount: player.deck.length,
+        discard: [...player.discard],
+        score: player.score,
+      })),
+    }
+  }
+
+  private static isOutOfCards(player: PlayerState): boolean {
+    return (
+      !player.activeCard && player.hand.length === 0 && player.deck.length === 0
+    )
+  }
+
+  private assertTurn(userId: number): PlayerState {
+    if (this.status === 'finished') {
+      throw new GameError('The game is over')
+    }
+    const player = this.getPlayer(userId)
+    if (!player) {
+      throw new GameError('You are not a player in this game')
+    }
+    if (player !== this.currentPlayer) {
+      throw new GameError('It is not your turn')
+    }
+    return player
+  }
+
+  private switchTurn(): void {
+    this.currentPlayerIndex = 1 - this.currentPlayerIndex
+    this.turn++
+  }
+}
@@ -0,0 +1,98 @@
+import { Game, GameError, GamePlayer } from './game.engine'
+
+/**
+ * Rejeu des parties
+ * Reconstruit une partie à partir de sa graine, des decks de départ et du journal des actions.
+ * Le moteur étant déterministe, chaque étape redonne exactement l'état joué à l'époque.
+ */
+
+// Joueur sans ID : ses actions ont perdu leur auteur (compte supprimé)
+export const UNKNOWN_PLAYER_ID = -1
+
+export interface ReplayEvent {
+  sequence: number
+  turn: number
+  userId: number | null
+  type: string
+  payload: unknown
+}
+
+export interface ReplayStep {
+  // 0 pour l'état de départ, puis une étape par action
+  step: number
+  action: ReplayEvent | null
+  state: ReturnType<Game['getFullState']>
+}
+
+/**
+ * Plays one recorded action on a game.
+ * @param {Game} game - The game being replayed
+ * @param {ReplayEvent} event - The recorded action
+ * @throws {GameError} If the action is unknown or the engine refuses it
+ */
+function applyEvent(game: Game, event: ReplayEvent) {
+  const userId = event.userId ?? UNKNOWN_PLAYER_ID
+  const payload = (event.payload ?? {}) as Record<string, unknown>
+
+  switch (event.type) {
+    case 'drawCards':
+      game.drawCards(userId)
+      return
+    case 'playCard':
+      game.playCard(userId, Number(payload.cardIndex))
+      return
+    case 'attack': {
+      const { damage } = game.attack(userId)
+      // Des dégâts différents signalent une partie qui ne se rejoue pas à l'identique
+      if (payload.damage !== undefined && payload.damage !== damage) {
+        throw new GameError(
+          `attack dealt ${damage} damage instead of ${payload.damage}`,
+        )
+      }
+      return
+    }
+    case 'endTurn':
+      game.endTurn(userId)
+      return
+    case 'forfeit': {
+      const opponent = game.players.find((player) => player.userId !== userId)!
+      game.finish(opponent.userId, 'forfeit')
+      return
+    }
+    default:
+      throw new GameError(`unknown action "${event.type}"`)
+  }
+}
+
+/**
+ * Replays a recorded game and yields its state after each action.
+ * @param {string} seed - The seed of the game
+ * @param {GamePlayer[]} players - The host and the guest with their decks, before the shuffle
+ * @param {ReplayEvent[]} events - The recorded actions, in play order
+ * @returns {Generator<ReplayStep>} The starting state, then the state after each action
+ * @throws {GameError} If an action cannot be replayed (the record does not match the game)
+ * @example
+ * for (const step of replayGame(match.seed, players, match.events)) {
+ *   console.log(step.step, step.action?.type, step.state.players[0].score)
+ * }
+ */
+export function* replayGame(
+  seed: string,
+  players: [GamePlayer, GamePlayer],
+  events: ReplayEvent[],
+): Generator<ReplayStep> {
+  const game = new Game(players[0], players[1], seed)
+  yield { step: 0, action: null, state: game.getFullState() }
+
+  for (const [index, event] of events.entries()) {
+    try {
+      applyEvent(game, event)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new GameError(
+        `Replay diverged at action ${event.sequence} (${event.type}): ${message}`,
+      )
+    }
+    yield { step: index + 1, action: event, state: game.getFullState() }
+  }
+}
@@ -0,0 +1,682 @@
+import { Server, Socket } from 'socket.io'
+import { prisma } from '../database'
+import { DeckRepository } from '../deck/deck.repository'
+import { DeckService } from '../deck/deck.service'
+import {
+  BOT_DIFFICULTIES,
+  BOT_USER_ID,
+  BotAction,
+  buildBotDeck,
+  chooseBotAction,
+  createBotPlayer,
+  isBotDifficulty,
+} from './bot.player'
+import { GameError, GamePlayer } from './game.engine'
+import { Matchmaker } from './matchmaker'
+import { QueueEntry } from './matchmaking.queue'
+import {
+  recordMatchEvent,
+  recordMatchResult,
+  startMatchRecord,
+} from './match.recorder'
+import { Room, RoomManager, spectatorChannel } from './room.manager'
+
+/**
+ * Loads a deck of the authenticated user and checks it can be played.
+ * @param {Socket} socket - The authenticated socket of the player
+ * @param {unknown} rawDeckId - The deck ID sent by the client
+ * @returns {Promise<GamePlayer>} The player ready to join a game
+ * @throws {GameError} If the deck is not owned by the user or breaks the rules of its format
+ */
+async function loadPlayer(
+  socket: Socket,
+  rawDeckId: unknown,
+): Promise<GamePlayer> {
+  const userId = socket.user!.userId
+
+  const deckId = parseInt(String(rawDeckId))
+  if (isNaN(deckId)) {
+    throw new GameError('Invalid deck ID')
+  }
+
+  const deck = await DeckRepository.getDeckByIdAndUser(deckId, userId)
+  // Le deck doit appartenir à l'utilisateur connecté
+  if (!deck) {
+    throw new GameError('Deck not found or not owned by you')
+  }
+  if (!deck.isValid) {
+    throw new GameError(`Deck is invalid: ${deck.invalidReason}`)
+  }
+  const violations = await DeckService.checkDeckRules(
+    userId,
+    deck.deckCards.map((deckCard) => deckCard.cardId),
+    DeckService.getFormat(deck.format),
+  )
+  if (violations.length > 0) {
+    throw new GameError(`Deck is invalid: ${violations[0].message}`)
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { username: true },
+  })
+
+  return {
+    userId,
+    username: user?.username ?? '',
+    socketId: socket.id,
+    deckId,
+    deckName: deck.name,
+    cards: deck.deckCards.map((deckCard) => deckCard.card),
+  }
+}
+
+// Délai entre deux actions du bot, pour que le joueur puisse les suivre
+export const BOT_MOVE_DELAY_MS = 800
+
+// Délai laissé à un joueur déconnecté pour revenir avant de perdre par forfait
+export const RECONNECT_GRACE_MS = 30000
+
+/**
+ * Sends each player their own view of the game, and the public view to the spectators.
+ * Emits `gameEnded` to the whole room and closes it once the game is over.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {Room} room - The room whose game changed
+ * @param {string} event - The event carrying the new state
+ */
+function broadcastGameState(
+  io: Server,
+  rooms: RoomManager,
+  room: Room,
+  event = 'gameStateUpdated',
+) {
+  const game = room.game!
+  for (const player of game.players) {
+    io.to(player.socketId).emit(event, {
+      roomId: room.id,
+      ...game.getStateFor(player.userId),
+    })
+  }
+  io.to(spectatorChannel(room.id)).emit(event, {
+    roomId: room.id,
+    ...game.getPublicState(),
+  })
+
+  if (game.status === 'finished') {
+    recordMatchResult(room)
+
+    const winner = game.getPlayer(game.winnerId!)!
+    io.to(room.id)
+      .to(spectatorChannel(room.id))
+      .emit('gameEnded', {
+        roomId: room.id,
+        winnerId: winner.userId,
+        winnerUsername: winner.username,
+        endReason: game.endReason,
+        matchId: room.match?.id ?? null,
+        scores: game.players.map((player) => ({
+          userId: player.userId,
+          score: player.score,
+        })),
+      })
+    io.in(room.id).socketsLeave(room.id)
+    io.in(spectatorChannel(room.id)).socketsLeave(spectatorChannel(room.id))
+    rooms.deleteRoom(room.id)
+    io.emit('roomsListUpdated', rooms.listRooms())
+    return
+  }
+
+  scheduleBotMove(io, rooms, room)
+}
+
+/**
+ * Plans the next action of the bot when it is its turn.
+ * Each action is broadcast like a player's, which plans the following one.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {Room} room - The room of a single-player game
+ */
+function scheduleBotMove(io: Server, rooms: RoomManager, room: Room) {
+  const game = room.game!
+  // Le bot attend le retour d'un joueur déconnecté
+  if (
+    !room.bot ||
+    room.botTimer ||
+    room.disconnected.size > 0 ||
+    game.status !== 'playing' ||
+    game.currentPlayer.userId !== BOT_USER_ID
+  ) {
+    return
+  }
+
+  room.botTimer = setTimeout(() => {
+    room.botTimer = null
+    // La partie a pu se terminer (abandon) pendant le délai
+    if (rooms.getRoom(room.id) !== room) {
+      return
+    }
+    playBotMove(io, room, chooseBotAction(game, room.bot!))
+    broadcastGameState(io, rooms, room)
+  }, BOT_MOVE_DELAY_MS)
+}
+
+/**
+ * Plays an action of the bot on the game of its room.
+ * A move refused by the engine ends the bot's turn so the game never gets stuck.
+ * @param {Server} io - The Socket.io server
+ * @param {Room} room - The room of a single-player game
+ * @param {BotAction} action - The action chosen by the bot
+ */
+function playBotMove(io: Server, room: Room, action: BotAction) {
+  const game = room.game!
+  try {
+    switch (action.type) {
+      case 'drawCards':
+        game.drawCards(BOT_USER_ID)
+        break
+      case 'playCard':
+        game.playCard(BOT_USER_ID, action.cardIndex)
+        break
+      case 'attack': {
+        const result = game.attack(BOT_USER_ID)
+        io.to(room.id)
+          .to(spectatorChannel(room.id))
+          .emit('attackResolved', { roomId: room.id, ...result })
+        break
+      }
+      case 'endTurn':
+        game.endTurn(BOT_USER_ID)
+        break
+    }
+  } catch (error) {
+    console.error('Bot move error:', error)
+    game.endTurn(BOT_USER_ID)
+  }
+}
+
+/**
+ * Prepares the bot opponent of a single-player game, with a deck of the same size as the player's.
+ * @param {unknown} difficulty - The difficulty sent by the client
+ * @param {number} deckSize - The number of cards of the player's deck
+ * @returns {Promise<object>} The difficulty and a function building the bot for its room
+ * @throws {GameError} If the difficulty is unknown
+ */
+async function loadBot(difficulty: unknown, deckSize: number) {
+  if (!isBotDifficulty(difficulty)) {
+    throw new GameError(`vsBot must be one of: ${BOT_DIFFICULTIES.join(', ')}`)
+  }
+  const catalog = await prisma.card.findMany({ orderBy: { id: 'asc' } })
+  const cards = buildBotDeck(catalog, deckSize)
+  return {
+    difficulty,
+    createBot: (roomId: string) => createBotPlayer(roomId, difficulty, cards),
+  }
+}
+
+/**
+ * Ends a game in progress by forfeit: the opponent of the given player wins.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {Room} room - The room of the game in progress
+ * @param {number} userId - The ID of the player who forfeits
+ */
+function forfeitGame(
+  io: Server,
+  rooms: RoomManager,
+  room: Room,
+  userId: number,
+) {
+  const game = room.game!
+  const opponent = game.players.find((player) => player.userId !== userId)!
+  recordMatchEvent(room, game.turn, userId, 'forfeit')
+  game.finish(opponent.userId, 'forfeit')
+  broadcastGameState(io, rooms, room)
+}
+
+/**
+ * Keeps the seat of a disconnected player for the grace period.
+ * The opponent is told with `opponentDisconnected`, the game is forfeited if the player does not come back.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {Room} room - The room of the game in progress
+ * @param {number} userId - The ID of the disconnected player
+ */
+function holdSeat(io: Server, rooms: RoomManager, room: Room, userId: number) {
+  const timer = setTimeout(() => {
+    room.disconnected.delete(userId)
+    // La partie a pu se terminer pendant le délai
+    if (rooms.getRoom(room.id) !== room || room.game!.status !== 'playing') {
+      return
+    }
+    forfeitGame(io, rooms, room, userId)
+  }, RECONNECT_GRACE_MS)
+  rooms.markDisconnected(room, userId, timer)
+
+  io.to(room.id).emit('opponentDisconnected', {
+    roomId: room.id,
+    userId,
+    username: room.game!.getPlayer(userId)!.username,
+    reconnectTimeoutMs: RECONNECT_GRACE_MS,
+  })
+}
+
+/**
+ * Brings a reconnecting user back into the games they were disconnected from.
+ * The player gets the full state with `gameResumed`, the opponent `opponentReconnected`.
+ * @param {Server} io - The Socket.io server
+ * @param {Socket} socket - The new socket of the user
+ * @param {RoomManager} rooms - The room manager
+ */
+async function resumeGames(io: Server, socket: Socket, rooms: RoomManager) {
+  const userId = socket.user!.userId
+
+  for (const room of rooms.getRoomsByUser(userId)) {
+    if (!rooms.reconnectPlayer(room, userId, socket.id)) {
+      continue
+    }
+    const game = room.game!
+
+    await socket.join(room.id)
+    socket.emit('gameResumed', {
+      roomId: room.id,
+      matchId: room.match?.id ?? null,
+      ...game.getStateFor(userId),
+    })
+    socket.to(room.id).emit('opponentReconnected', {
+      roomId: room.id,
+      userId,
+      username: game.getPlayer(userId)!.username,
+    })
+    // Le bot reprend la partie là où elle s'était arrêtée
+    scheduleBotMove(io, rooms, room)
+  }
+}
+
+/**
+ * Tells the players and spectators of a room how many spectators are watching.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {Room} room - The watched room
+ */
+function notifySpectatorCount(io: Server, rooms: RoomManager, room: Room) {
+  io.to(room.id).to(spectatorChannel(room.id)).emit('spectatorCountUpdated', {
+    roomId: room.id,
+    spectatorCount: room.spectators.size,
+  })
+  io.emit('roomsListUpdated', rooms.listRooms())
+}
+
+/**
+ * Starts the game of two players paired by the matchmaker.
+ * The longest waiting player hosts the room, both are told with `matchFound`.
+ * @param {Server} io - The Socket.io server
+ * @param {RoomManager} rooms - The room manager
+ * @param {QueueEntry} first - The player who has waited the longest
+ * @param {QueueEntry} second - Their opponent
+ */
+export async function startMatchmadeGame(
+  io: Server,
+  rooms: RoomManager,
+  first: QueueEntry,
+  second: QueueEntry,
+) {
+  const room = rooms.createRoom(first.player)
+  rooms.startGame(room, second.player)
+  io.in(first.socketId).socketsJoin(room.id)
+  io.in(second.socketId).socketsJoin(room.id)
+  await startMatchRecord(room)
+
+  for (const [self, opponent] of [
+    [first, second],
+    [second, first],
+  ]) {
+    io.to(self.socketId).emit('matchFound', {
+      roomId: room.id,
+      deckId: self.player.deckId,
+      opponent: {
+        userId: opponent.userId,
+        username: opponent.player.username,
+        rating: opponent.rating,
+      },
+    })
+  }
+  broadcastGameState(io, rooms, room, 'gameStarted')
+  io.emit('roomsListUpdated', rooms.listRooms())
+}
+
+/**
+ * Sends an error to the client. Only game errors are described, anything else is logged.
+ * @param {Socket} socket - The socket to notify
+ * @param {string} action - The action that failed
+ * @param {unknown} error - The error raised
+ */
+function emitError(socket: Socket, action: string, error: unknown) {
+  if (error instanceof GameError) {
+    socket.emit('error', { action, message: error.message })
+    return
+  }
+  console.error(`Socket ${action} error:`, error)
+  socket.emit('error', { action, message: 'Internal server error' })
+}
+
+/**
+ * Registers the room and game events for a connected socket.
+ * @param {Server} io - The Socket.io server
+ * @param {Socket} socket - The connected socket
+ * @param {RoomManager} rooms - The shared room manager
+ * @param {Matchmaker} matchmaker - The shared matchmaker
+ */
+export function registerGameHandlers(
+  io: Server,
+  socket: Socket,
+  rooms: RoomManager,
+  matchmaker: Matchmaker,
+) {
+  // Les parties sont liées à l'utilisateur : une nouvelle connexion reprend sa place
+  resumeGames(io, socket, rooms).catch((error) =>
+    console.error('Socket resume error:', error),
+  )
+
+  /**
+   * Retourne la room dont la partie est en cours
+   */
+  const getPlayingRoom = (roomId: unknown): Room => {
+    const room = rooms.getRoom(String(roomId))
+    if (!room || !room.game) {
+      throw new GameError('Game not found')
+    }
+    return room
+  }
+
+  const getPlayerId = (room: Room): number => {
+    // Les spectateurs ne peuvent jamais agir sur la partie
+    if (room.spectators.has(socket.id)) {
+      throw new GameError('Spectators cannot play')
+    }
+    const player = room.game!.getPlayer(socket.user!.userId)
+    if (!player) {
+      throw new GameError('You are not a player in this game')
+    }
+    return player.userId
+  }
+
+  const ensureNotQueued = async () => {
+    // Un joueur en file d'attente pourrait se retrouver dans deux parties
+    if (await matchmaker.queue.get(socket.user!.userId)) {
+      throw new GameError('Leave the matchmaking queue first')
+    }
+  }
+
+  socket.on('getRooms', () => {
+    socket.emit('roomsList', rooms.listRooms())
+  })
+
+  socket.on(
+    'createRoom',
+    async (data: { deckId?: unknown; vsBot?: unknown } = {}) => {
+      try {
+        await ensureNotQueued()
+        const host = await loadPlayer(socket, data.deckId)
+
+        // Partie solo : le bot rejoint la room immédiatement
+        if (data.vsBot !== undefined) {
+          const { difficulty, createBot } = await loadBot(
+            data.vsBot,
+            host.cards.length,
+          )
+          const room = rooms.createBotRoom(host, difficulty, createBot)
+
+          await socket.join(room.id)
+          socket.emit('roomCreated', {
+            roomId: room.id,
+            deckId: host.deckId,
+            vsBot: difficulty,
+            createdAt: room.createdAt,
+          })
+          broadcastGameState(io, rooms, room, 'gameStarted')
+          io.emit('roomsListUpdated', rooms.listRooms())
+          return
+        }
+
+        const room = rooms.createRoom(host)
+
+        await socket.join(room.id)
+        socket.emit('roomCreated', {
+          roomId: room.id,
+          deckId: host.deckId,
+          createdAt: room.createdAt,
+        })
+        io.emit('roomsListUpdated', rooms.listRooms())
+      } catch (error) {
+        emitError(socket, 'createRoom', error)
+      }
+    },
+  )
+
+  socket.on(
+    'joinRoom',
+    async (data: { roomId?: unknown; deckId?: unknown } = {}) => {
+      try {
+        const room = rooms.getRoom(String(data.roomId))
+        if (!room) {
+          throw new GameError('Room not found')
+        }
+        if (room.game) {
+          throw new GameError('Room is already full')
+        }
+
+        await ensureNotQueued()
+        const guest = await loadPlayer(socket, data.deckId)
+        if (guest.userId === room.host.userId) {
+          throw new GameError('You cannot join your own room')
+        }
+        // La room a pu être rejointe pendant le chargement du deck
+        if (room.game || !rooms.getRoom(room.id)) {
+          throw new GameError('Room is no longer available')
+        }
+
+        // Un spectateur peut prendre la place libre
+        if (rooms.removeSpectator(room, socket.id)) {
+          await socket.leave(spectatorChannel(room.id))
+        }
+        rooms.startGame(room, guest)
+        await socket.join(room.id)
+        await startMatchRecord(room)
+
+        broadcastGameState(io, rooms, room, 'gameStarted')
+        io.emit('roomsListUpdated', rooms.listRooms())
+      } catch (error) {
+        emitError(socket, 'joinRoom', error)
+      }
+    },
+  )
+
+  socket.on('queueJoin', async (data: { deckId?: unknown } = {}) => {
+    try {
+      const userId = socket.user!.userId
+      if (rooms.getRoomsBySocket(socket.id).length > 0) {
+        throw new GameError('You are already in a room')
+      }
+
+      const player = await loadPlayer(socket, data.deckId)
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { rating: true },
+      })
+      const entry: QueueEntry = {
+        userId,
+        socketId: socket.id,
+        rating: user?.rating ?? 0,
+        joinedAt: Date.now(),
+        player,
+      }
+      if (!(await matchmaker.queue.add(entry))) {
+        throw new GameError('You are already in the queue')
+      }
+
+      socket.emit('queueJoined', {
+        deckId: player.deckId,
+        rating: entry.rating,
+        joinedAt: entry.joinedAt,
+      })
+    } catch (error) {
+      emitError(socket, 'queueJoin', error)
+    }
+  })
+
+  socket.on('queueLeave', async () => {
+    try {
+      const userId = socket.user!.userId
+      const entry = await matchmaker.queue.get(userId)
+      // Un autre onglet du même utilisateur ne peut pas le retirer de la file
+      if (!entry || entry.socketId !== socket.id) {
+        throw new GameError('You are not in the queue')
+      }
+
+      await matchmaker.queue.remove(userId)
+      socket.emit('queueLeft', {})
+    } catch (error) {
+      emitError(socket, 'queueLeave', error)
+    }
+  })
+
+  socket.on('spectateRoom', async (data: { roomId?: unknown } = {}) => {
+    try {
+      const room = rooms.getRoom(String(data.roomId))
+      if (!room) {
+        throw new GameError('Room not found')
+      }
+      const userId = socket.user!.userId
+      if (room.host.userId === userId || room.game?.getPlayer(userId)) {
+        throw new GameError('You cannot spectate a room you play in')
+      }
+
+      rooms.addSpectator(room, socket.id)
+      await socket.join(spectatorChannel(room.id))
+      socket.emit('spectating', {
+        roomId: room.id,
+        spectatorCount: room.spectators.size,
+        // null tant que la partie n'a pas commencé
+        state: room.game?.getPublicState() ?? null,
+      })
+      notifySpectatorCount(io, rooms, room)
+    } catch (error) {
+      emitError(socket, 'spectateRoom', error)
+    }
+  })
+
+  socket.on('stopSpectating', async (data: { roomId?: unknown } = {}) => {
+    try {
+      const room = rooms.getRoom(String(data.roomId))
+      if (!room || !rooms.removeSpectator(room, socket.id)) {
+        throw new GameError('You are not spectating this room')
+      }
+
+      await socket.leave(spectatorChannel(room.id))
+      socket.emit('spectatingStopped', { roomId: room.id })
+      notifySpectatorCount(io, rooms, room)
+    } catch (error) {
+      emitError(socket, 'stopSpectating', error)
+    }
+  })
+
+  socket.on('drawCards', (data: { roomId?: unknown } = {}) => {
+    try {
+      const room = getPlayingRoom(data.roomId)
+      const userId = getPlayerId(room)
+      const turn = room.game!.turn
+      const drawn = room.game!.drawCards(userId)
+      recordMatchEvent(room, turn, userId, 'drawCards', { drawn })
+      broadcastGameState(io, rooms, room)
+    } catch (error) {
+      emitError(socket, 'drawCards', error)
+    }
+  })
+
+  socket.on(
+    'playCard',
+    (data: { roomId?: unknown; cardIndex?: unknown } = {}) => {
+      try {
+        const room = getPlayingRoom(data.roomId)
+        const userId = getPlayerId(room)
+        const turn = room.game!.turn
+        const cardIndex = Number(data.cardIndex)
+        const card = room.game!.playCard(userId, cardIndex)
+        recordMatchEvent(room, turn, userId, 'playCard', {
+          cardIndex,
+          cardId: card.id,
+          cardName: card.name,
+        })
+        broadcastGameState(io, rooms, room)
+      } catch (error) {
+        emitError(socket, 'playCard', error)
+      }
+    },
+  )
+
+  socket.on('attack', (data: { roomId?: unknown } = {}) => {
+    try {
+      const room = getPlayingRoom(data.roomId)
+      const userId = getPlayerId(room)
+      const turn = room.game!.turn
+      const result = room.game!.attack(userId)
+      recordMatchEvent(room, turn, userId, 'attack', { ...result })
+      io.to(room.id)
+        .to(spectatorChannel(room.id))
+        .emit('attackResolved', { roomId: room.id, ...result })
+      broadcastGameState(io, rooms, room)
+    } catch (error) {
+      emitError(socket, 'attack', error)
+    }
+  })
+
+  socket.on('endTurn', (data: { roomId?: unknown } = {}) => {
+    try {
+      const room = getPlayingRoom(data.roomId)
+      const userId = getPlayerId(room)
+      const turn = room.game!.turn
+      room.game!.endTurn(userId)
+      recordMatchEvent(room, turn, userId, 'endTurn')
+      broadcastGameState(io, rooms, room)
+    } catch (error) {
+      emitError(socket, 'endTurn', error)
+    }
+  })
+
+  socket.on('disconnect', async () => {
+    try {
+      for (const room of rooms.getRoomsBySpectator(socket.id)) {
+        rooms.removeSpectator(room, socket.id)
+        notifySpectatorCount(io, rooms, room)
+      }
+
+      for (const room of rooms.getRoomsBySocket(socket.id)) {
+        if (!room.game) {
+          // Room en attente : on la supprime et on prévient ses spectateurs
+          io.to(spectatorChannel(room.id)).emit('roomClosed', {
+            roomId: room.id,
+          })
+          io.in(spectatorChannel(room.id)).socketsLeave(
+            spectatorChannel(room.id),
+          )
+          rooms.deleteRoom(room.id)
+          io.emit('roomsListUpdated', rooms.listRooms())
+          continue
+        }
+
+        // Partie en cours : le joueur garde sa place le temps de se reconnecter
+        holdSeat(io, rooms, room, socket.user!.userId)
+      }
+
+      // En dernier : une file partagée indisponible ne bloque pas la libération des rooms
+      const queued = await matchmaker.queue.get(socket.user!.userId)
+      if (queued?.socketId === socket.id) {
+        await matchmaker.queue.remove(queued.userId)
+      }
+    } catch (error) {
+      // Plus aucun client à prévenir : on journalise seulement
+      console.error('Socket disconnect error:', error)
+    }
+  })
+}
@@ -0,0 +1,108 @@
+import { Prisma } from '../generated/prisma/client'
+import { MatchService } from '../match/match.service'
+import { Room } from './room.manager'
+
+/**
+ * Enregistrement de l'historique des parties
+ * Les erreurs de persistance sont journalisées sans jamais interrompre la partie
+ */
+
+/**
+ * Creates the match record of a room whose game just started.
+ * The seed and the unshuffled decks are stored so the game can be replayed.
+ * Actions played while the record is created are kept and written once it exists.
+ * @param {Room} room - The room with a started game
+ * @returns {Promise<void>} Resolves once the match is stored (or the failure logged)
+ */
+export async function startMatchRecord(room: Room): Promise<void> {
+  const game = room.game!
+  room.pendingEvents = []
+  try {
+    const match = await MatchService.startMatch(
+      room.id,
+      game.seed,
+      game.initialPlayers.map((player, seat) => ({
+        userId: player.userId,
+        deckId: player.deckId,
+        deckName: player.deckName,
+        seat,
+        deckSnapshot: player.cards.map((card) => ({
+          id: card.id,
+          name: card.name,
+          hp: card.hp,
+          attack: card.attack,
+          defense: card.defense,
+          type: card.type,
+          rarity: card.rarity,
+          pokedexNumber: card.pokedexNumber,
+          imgUrl: card.imgUrl,
+        })),
+      })),
+    )
+    room.match = { id: match.id, startedAt: match.startedAt, sequence: 0 }
+  } catch (error) {
+    console.error('Match record start error:', error)
+  }
+
+  const pending = room.pendingEvents
+  room.pendingEvents = null
+  for (const event of pending) {
+    recordMatchEvent(room, event.turn, event.userId, event.type, event.payload)
+  }
+  // La partie a pu se terminer (abandon) avant la création de l'historique
+  recordMatchResult(room)
+}
+
+/**
+ * Appends a player action to the turn log of the room's match.
+ * The sequence number is taken synchronously so the log keeps the play order;
+ * while the match record is created, the action waits in the room.
+ * @param {Room} room - The room where the action was played
+ * @param {number} turn - The turn during which the action was played
+ * @param {number | null} userId - The ID of the acting player, null for system events
+ * @param {string} type - The action name (drawCards, playCard, attack, endTurn, forfeit)
+ * @param {Prisma.InputJsonValue} [payload] - Details of the action
+ */
+export function recordMatchEvent(
+  room: Room,
+  turn: number,
+  userId: number | null,
+  type: string,
+  payload?: Prisma.InputJsonValue,
+): void {
+  if (room.pendingEvents) {
+    room.pendingEvents.push({ turn, userId, type, payload })
+    return
+  }
+  if (!room.match) {
+    return
+  }
+  MatchService.recordEvent(room.match.id, {
+    sequence: room.match.sequence++,
+    turn,
+    userId,
+    type,
+    payload,
+  }).catch((error) => console.error('Match event record error:', error))
+}
+
+/**
+ * Stores the result of the room's finished game.
+ * @param {Room} room - The room whose game is over
+ */
+export function recordMatchResult(room: Room): void {
+  const game = room.game!
+  if (!room.match || game.status !== 'finished') {
+    return
+  }
+  MatchService.finishMatch(
+    room.match.id,
+    room.match.startedAt,
+    game.winnerId!,
+    game.endReason!,
+    game.players.map((player) => ({
+      userId: player.userId,
+      score: player.score,
+    })),
+  ).catch((error) => console.error('Match result record error:', error))
+}
@@ -0,0 +1,146 @@
+import { MatchmakingQueue, QueueEntry } from './matchmaking.queue'
+
+/**
+ * Matchmaking automatique
+ * Les joueurs en attente sont appariés par classement : l'écart accepté part de
+ * MATCHMAKING_INITIAL_GAP et s'élargit avec le temps d'attente, pour qu'aucun joueur
+ * n'attende indéfiniment.
+ */
+
+export const MATCHMAKING_INITIAL_GAP = 100
+export const MATCHMAKING_GAP_STEP = 50
+export const MATCHMAKING_GAP_STEP_MS = 5000
+export const MATCHMAKING_MAX_GAP = 1000
+export const MATCHMAKING_TICK_MS = 2000
+
+export type MatchHandler = (
+  first: QueueEntry,
+  second: QueueEntry,
+) => void | Promise<void>
+
+/**
+ * Returns the rating gap a player accepts after waiting some time.
+ * @param {number} waitedMs - How long the player has been waiting, in milliseconds
+ * @returns {number} The largest accepted rating difference
+ * @example
+ * getAcceptableGap(0) // 100
+ * getAcceptableGap(12000) // 200
+ */
+export function getAcceptableGap(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / MATCHMAKING_GAP_STEP_MS)
+  return Math.min(
+    MATCHMAKING_MAX_GAP,
+    MATCHMAKING_INITIAL_GAP + steps * MATCHMAKING_GAP_STEP,
+  )
+}
+
+/**
+ * Pairs the waiting players.
+ * The longest waiting players are served first, each with the closest rated player
+ * still unpaired. A pair is made when the rating gap fits the window of the player
+ * who has waited the longest.
+ * @param {QueueEntry[]} entries - The waiting players
+ * @param {number} now - The current time, in milliseconds
+ * @returns {Array<[QueueEntry, QueueEntry]>} The pairs, the longest waiting player first
+ */
+export function pairPlayers(
+  entries: QueueEntry[],
+  now: number,
+): [QueueEntry, QueueEntry][] {
+  const waiting = [...entries].sort((a, b) => a.joinedAt - b.joinedAt)
+  const paired = new Set<number>()
+  const pairs: [QueueEntry, QueueEntry][] = []
+
+  for (const entry of waiting) {
+    if (paired.has(entry.userId)) continue
+
+    const gap = getAcceptableGap(now - entry.joinedAt)
+    let best: QueueEntry | undefined
+    for (const candidate of waiting) {
+      if (candidate.userId === entry.userId || paired.has(candidate.userId)) {
+        continue
+      }
+      const difference = Math.abs(candidate.rating - entry.rating)
+      if (
+        difference <= gap &&
+        (!best || difference < Math.abs(best.rating - entry.rating))
+      ) {
+        best = candidate
+      }
+    }
+
+    if (best) {
+      paired.add(entry.userId)
+      paired.add(best.userId)
+      pairs.push([entry, best])
+    }
+  }
+  return pairs
+}
+
+export class Matchmaker {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * @param {MatchmakingQueue} queue - The store of the waiting players
+   * @param {MatchHandler} onMatch - Called with both players of each pair, once removed from the queue
+   */
+  constructor(
+    readonly queue: MatchmakingQueue,
+    private readonly onMatch: MatchHandler,
+  ) {}
+
+  /**
+   * Starts pairing the waiting players at a regular interval.
+   * @param {number} [intervalMs] - The time between two pairing rounds
+   */
+  start(intervalMs: number = MATCHMAKING_TICK_MS): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('Matchmaking error:', error))
+    }, intervalMs)
+    // Le matchmaking ne doit pas empêcher le processus de s'arrêter
+    this.timer.unref()
+  }
+
+  /**
+   * Stops the pairing rounds.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Runs one pairing round: pairs the waiting players, removes them from the queue
+   * and starts their games. A round is skipped while the previous one is still running.
+   * @param {number} [now] - The current time, in milliseconds
+   * @returns {Promise<number>} The number of pairs made
+   */
+  async tick(now: number = Date.now()): Promise<number> {
+    if (this.running) return 0
+    this.running = true
+    try {
+      const pairs = pairPlayers(await this.queue.list(), now)
+      let matched = 0
+      for (const [first, second] of pairs) {
+        // Un joueur a pu quitter la file pendant l'appariement
+        const removedFirst = await this.queue.remove(first.userId)
+        const removedSecond = await this.queue.remove(second.userId)
+        if (!removedFirst || !removedSecond) {
+          if (removedFirst) await this.queue.add(removedFirst)
+          if (removedSecond) await this.queue.add(removedSecond)
+          continue
+        }
+        await this.onMatch(removedFirst, removedSecond)
+        matched++
+      }
+      return matched
+    } finally {
+      this.running = false
+    }
+  }
+}
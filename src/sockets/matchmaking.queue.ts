@@ -0,0 +1,73 @@
+import { GamePlayer } from './game.engine'
+
+/**
+ * File d'attente du matchmaking
+ * L'état de la file passe par une interface : la version en mémoire suffit pour un seul
+ * serveur et pour les tests, une version partagée (Redis, base de données...) pourra
+ * l'implémenter pour plusieurs instances.
+ */
+
+export interface QueueEntry {
+  userId: number
+  socketId: string
+  // Mesure du niveau du joueur (classement Elo)
+  rating: number
+  // Date d'entrée dans la file, en millisecondes
+  joinedAt: number
+  player: GamePlayer
+}
+
+export interface MatchmakingQueue {
+  /**
+   * Adds a player to the queue.
+   * @param {QueueEntry} entry - The waiting player
+   * @returns {Promise<boolean>} False if the user is already queued
+   */
+  add(entry: QueueEntry): Promise<boolean>
+
+  /**
+   * Removes a player from the queue.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<QueueEntry | undefined>} The removed entry, or undefined if the user was not queued
+   */
+  remove(userId: number): Promise<QueueEntry | undefined>
+
+  /**
+   * Retrieves the entry of a queued user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<QueueEntry | undefined>} The entry, or undefined if the user is not queued
+   */
+  get(userId: number): Promise<QueueEntry | undefined>
+
+  /**
+   * Lists the waiting players, the longest waiting first.
+   * @returns {Promise<QueueEntry[]>} The queue entries
+   */
+  list(): Promise<QueueEntry[]>
+}
+
+export class InMemoryMatchmakingQueue implements MatchmakingQueue {
+  private entries = new Map<number, QueueEntry>()
+
+  async add(entry: QueueEntry): Promise<boolean> {
+    if (this.entries.has(entry.userId)) {
+      return false
+    }
+    this.entries.set(entry.userId, entry)
+    return true
+  }
+
+  async remove(userId: number): Promise<QueueEntry | undefined> {
+    const entry = this.entries.get(userId)
+    this.entries.delete(userId)
+    return entry
+  }
+
+  async get(userId: number): Promise<QueueEntry | undefined> {
+    return this.entries.get(userId)
+  }
+
+  async list(): Promise<QueueEntry[]> {
+    return [...this.entries.values()].sort((a, b) => a.joinedAt - b.joinedAt)
+  }
+}
@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto'
+import { MatchEventInput } from '../match/match.repository'
+import { BotDifficulty } from './bot.player'
+import { Game, GamePlayer } from './game.engine'
+
+export interface MatchRecord {
+  id: number
+  startedAt: Date
+  sequence: number
+}
+
+export interface Room {
+  id: string
+  host: GamePlayer
+  game: Game | null
+  match: MatchRecord | null
+  // Actions jouées pendant la création de l'historique, null hors de cette attente
+  pendingEvents: Omit<MatchEventInput, 'sequence'>[] | null
+  // Difficulté du bot pour une partie solo, null pour une partie entre joueurs
+  bot: BotDifficulty | null
+  botTimer: NodeJS.Timeout | null
+  // Sockets qui regardent la partie sans y jouer
+  spectators: Set<string>
+  // Joueurs déconnectés, avec le forfait déclenché à la fin du délai de reconnexion
+  disconnected: Map<number, NodeJS.Timeout>
+  createdAt: Date
+}
+
+/**
+ * Returns the Socket.io channel of the spectators of a room.
+ * Spectators never join the players' channel, so they only receive public events.
+ * @param {string} roomId - The ID of the room
+ * @returns {string} The name of the spectators channel
+ */
+export function spectatorChannel(roomId: string): string {
+  return `${roomId}:spectators`
+}
+
+export class RoomManager {
+  private rooms = new Map<string, Room>()
+
+  /**
+   * Creates a waiting room hosted by the given player.
+   * @param {GamePlayer} host - The player creating the room
+   * @returns {Room} The created room
+   */
+  createRoom(host: GamePlayer): Room {
+    const room: Room = {
+      id: randomUUID(),
+      host,
+      game: null,
+      match: null,
+      pendingEvents: null,
+      bot: null,
+      botTimer: null,
+      spectators: new Set(),
+      disconnected: new Map(),
+      createdAt: new Date(),
+    }
+    this.rooms.set(room.id, room)
+    return room
+  }
+
+  /**
+   * Retrieves a room by ID.
+   * @param {string} roomId - The ID of the room
+   * @returns {Room | undefined} The room, or undefined if it does not exist
+   */
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId)
+  }
+
+  /**
+   * Starts the game of a waiting room with a second player.
+   * @param {Room} room - The waiting room
+   * @param {GamePlayer} guest - The player joining the room
+   * @returns {Game} The started game
+   */
+  startGame(room: Room, guest: GamePlayer): Game {
+    room.game = new Game(room.host, guest)
+    return room.game
+  }
+
+  /**
+   * Starts a single-player game against a bot in a new room.
+   * The room is never listed, the game starts right away.
+   * @param {GamePlayer} host - The human player
+   * @param {BotDifficulty} difficulty - The difficulty of the bot
+   * @param {Function} createBot - Builds the bot player for the room ID
+   * @returns {Room} The room with its started game
+   */
+  createBotRoom(
+    host: GamePlayer,
+    difficulty: BotDifficulty,
+    createBot: (roomId: string) => GamePlayer,
+  ): Room {
+    const room = this.createRoom(host)
+    room.bot = difficulty
+    this.startGame(room, createBot(room.id))
+    return room
+  }
+
+  /**
+   * Removes a room. A pending bot move and pending forfeits of the room are cancelled.
+   * @param {string} roomId - The ID of the room to remove
+   */
+  deleteRoom(roomId: string): void {
+    const room = this.rooms.get(roomId)
+    if (room?.botTimer) {
+      clearTimeout(room.botTimer)
+    }
+    room?.disconnected.forEach((timer) => clearTimeout(timer))
+    this.rooms.delete(roomId)
+  }
+
+  /**
+   * Finds every room a user takes part in, as host or as player, whatever their socket.
+   * @param {number} userId - The ID of the user
+   * @returns {Room[]} The rooms of the user
+   */
+  getRoomsByUser(userId: number): Room[] {
+    return [...this.rooms.values()].filter(
+      (room) =>
+        room.host.userId === userId ||
+        room.game?.players.some((player) => player.userId === userId),
+    )
+  }
+
+  /**
+   * Marks a player as disconnected until they reconnect or the forfeit timer fires.
+   * @param {Room} room - The room of the game in progress
+   * @param {number} userId - The ID of the disconnected player
+   * @param {NodeJS.Timeout} forfeitTimer - The timer forfeiting the game at the end of the grace period
+   */
+  markDisconnected(
+    room: Room,
+    userId: number,
+    forfeitTimer: NodeJS.Timeout,
+  ): void {
+    clearTimeout(room.disconnected.get(userId))
+    room.disconnected.set(userId, forfeitTimer)
+  }
+
+  /**
+   * Moves the seat of a player to a new socket and cancels their pending forfeit.
+   * The old socket may not be known as disconnected yet, its disconnection is then ignored.
+   * @param {Room} room - The room of the game in progress
+   * @param {number} userId - The ID of the reconnecting player
+   * @param {string} socketId - The ID of their new socket
+   * @returns {boolean} True if the user plays the game of the room
+   */
+  reconnectPlayer(room: Room, userId: number, socketId: string): boolean {
+    const player = room.game?.getPlayer(userId)
+    if (!player || room.game!.status !== 'playing') {
+      return false
+    }
+    clearTimeout(room.disconnected.get(userId))
+    room.disconnected.delete(userId)
+    player.socketId = socketId
+    if (room.host.userId === userId) {
+      room.host.socketId = socketId
+    }
+    return true
+  }
+
+  /**
+   * Finds every room a socket takes part in, as host or as player.
+   * @param {string} socketId - The ID of the socket
+   * @returns {Room[]} The rooms of the socket
+   */
+  getRoomsBySocket(socketId: string): Room[] {
+    return [...this.rooms.values()].filter(
+      (room) =>
+        room.host.socketId === socketId ||
+        room.game?.players.some((player) => player.socketId === socketId),
+    )
+  }
+
+  /**
+   * Adds a spectator to a room.
+   * @param {Room} room - The room to watch
+   * @param {string} socketId - The ID of the spectator's socket
+   */
+  addSpectator(room: Room, socketId: string): void {
+    room.spectators.add(socketId)
+  }
+
+  /**
+   * Removes a spectator from a room.
+   * @param {Room} room - The watched room
+   * @param {string} socketId - The ID of the spectator's socket
+   * @returns {boolean} True if the socket was watching the room
+   */
+  removeSpectator(room: Room, socketId: string): boolean {
+    return room.spectators.delete(socketId)
+  }
+
+  /**
+   * Finds every room a socket is watching.
+   * @param {string} socketId - The ID of the socket
+   * @returns {Room[]} The rooms watched by the socket
+   */
+  getRoomsBySpectator(socketId: string): Room[] {
+    return [...this.rooms.values()].filter((room) =>
+      room.spectators.has(socketId),
+    )
+  }
+
+  /**
+   * Lists the rooms waiting for a second player and the games in progress.
+   * Only public information about the players is returned.
+   * @returns {object[]} The rooms, with their status and spectator count
+   */
+  listRooms() {
+    return [...this.rooms.values()].map((room) => ({
+      id: room.id,
+      status: room.game ? 'playing' : 'waiting',
+      host: {
+        userId: room.host.userId,
+        username: room.host.username,
+      },
+      players: (room.game?.players ?? [room.host]).map((player) => ({
+        userId: player.userId,
+        username: player.username,
+      })),
+      vsBot: room.bot,
+      spectatorCount: room.spectators.size,
+      createdAt: room.createdAt,
+    }))
+  }
+}
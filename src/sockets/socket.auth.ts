@@ -0,0 +1,66 @@
+import { Socket } from 'socket.io'
+import {
+  missingTokenError,
+  toAuthenticationError,
+} from '../Authentification/auth.errors'
+import { TokenService } from '../Authentification/token.service'
+
+/**
+ * Extracts the JWT from the socket handshake.
+ * Accepts `auth.token` (Socket.io client option) or an `Authorization: Bearer <token>` header.
+ * @param {Socket} socket - The connecting socket
+ * @returns {string | undefined} The token, or undefined if none was sent
+ */
+function getHandshakeToken(socket: Socket): string | undefined {
+  const authToken = socket.handshake.auth?.token
+  if (typeof authToken === 'string' && authToken.length > 0) {
+    return authToken.startsWith('Bearer ') ? authToken.split(' ')[1] : authToken
+  }
+
+  const authHeader = socket.handshake.headers.authorization
+  return authHeader && authHeader.split(' ')[1] // Format: "Bearer TOKEN"
+}
+
+/**
+ * Socket.io middleware to authenticate connections with JWT tokens.
+ * Verifies the token sent in the handshake, checks that its session has not been
+ * revoked and attaches user info to the socket.
+ * Rejected connections receive a `connect_error` with the reason as message.
+ * @param {Socket} socket - The connecting socket
+ * @param {Function} next - Socket.io next function, called with an error to refuse the connection
+ * @returns {Promise<void>} Resolves once the connection is accepted or refused
+ */
+export const authenticateSocket = async (
+  socket: Socket,
+  next: (error?: Error) => void,
+) => {
+  const token = getHandshakeToken(socket)
+
+  if (!token) {
+    next(missingTokenError())
+    return
+  }
+
+  try {
+    const decoded = await TokenService.verifyAccessToken(token)
+
+    socket.user = {
+      userId: decoded.userId,
+      email: decoded.email,
+      sessionId: decoded.sessionId,
+      role: decoded.role,
+    }
+  } catch (error) {
+    const authError = toAuthenticationError(error)
+    if (!authError) {
+      // Erreur inattendue : on la journalise sans en révéler le détail au client
+      console.error('Socket authentication error:', error)
+      next(new Error('Internal server error'))
+      return
+    }
+    next(authError)
+    return
+  }
+
+  next()
+}
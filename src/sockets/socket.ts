@@ -0,0 +1,39 @@
+import { Server as HttpServer } from 'http'
+import { Server } from 'socket.io'
+import { registerGameHandlers, startMatchmadeGame } from './game.socket'
+import { Matchmaker } from './matchmaker'
+import { InMemoryMatchmakingQueue } from './matchmaking.queue'
+import { authenticateSocket } from './socket.auth'
+import { RoomManager } from './room.manager'
+
+/**
+ * Creates the Socket.io server attached to the HTTP server and registers the game events.
+ * Connections are authenticated with the same JWT as the REST API.
+ * The matchmaker pairing queued players is started with it.
+ * @param {HttpServer} httpServer - The HTTP server serving the Express app
+ * @returns {Server} The Socket.io server
+ */
+export function initSocketServer(httpServer: HttpServer): Server {
+  const io = new Server(httpServer, {
+    cors: {
+      origin: true,
+      credentials: true,
+    },
+  })
+
+  // Toutes les connexions doivent porter un JWT valide
+  io.use(authenticateSocket)
+
+  const rooms = new RoomManager()
+  // Les joueurs appariés démarrent directement leur partie
+  const matchmaker = new Matchmaker(new InMemoryMatchmakingQueue(), (a, b) =>
+    startMatchmadeGame(io, rooms, a, b),
+  )
+  matchmaker.start()
+
+  io.on('connection', (socket) => {
+    registerGameHandlers(io, socket, rooms, matchmaker)
+  })
+
+  return io
+}
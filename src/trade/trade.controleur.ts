@@ -0,0 +1,257 @@
+import { NextFunction, Request, Response } from 'express'
+import { ValidationError } from '../errors/app.errors'
+import { TradeStatus } from '../generated/prisma/client'
+import { TradeService } from './trade.service'
+
+const TRADE_DIRECTIONS = ['sent', 'received'] as const
+
+/**
+ * Reads the trade ID from the route parameters.
+ * @param {Request} req - Express request object with trade ID in params
+ * @returns {number} The trade ID
+ * @throws {ValidationError} If the ID is not a number
+ */
+function parseTradeId(req: Request): number {
+  const tradeId = parseInt(req.params.id)
+  if (isNaN(tradeId)) {
+    throw ValidationError.forField('id', 'Invalid trade ID')
+  }
+  return tradeId
+}
+
+/**
+ * Proposes a trade to another user: offered cards for requested cards.
+ * @param {Request} req - Express request object with the offer in body and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the pending trade or error
+ * @throws {Error} Returns 400 for an invalid offer, 404 if the recipient does not exist
+ * @throws {Error} Returns 409 if a side does not own the cards (with the list of missing cards)
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * Body: { "recipientId": 2, "offeredCards": [{ "cardId": 25, "quantity": 1 }], "requestedCards": [{ "cardId": 4 }], "message": "Pikachu for Charmander?" }
+ * Response: { "id": 1, "status": "PENDING", "proposer": { "id": 1, "username": "red" }, "recipient": { "id": 2, "username": "blue" }, "items": [...] }
+ */
+export const proposeTrade = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { recipientId, offeredCards, requestedCards, message } = req.body
+    const userId = req.user!.userId
+
+    const trade = await TradeService.proposeTrade(userId, recipientId, {
+      offeredCards,
+      requestedCards,
+      message,
+    })
+
+    res.status(201).json(trade)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves the trades the authenticated user proposed or received.
+ * @param {Request} req - Express request object with optional `status` and `direction` query parameters and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with array of trades or error
+ * @throws {Error} Returns 400 for invalid filters, 500 for internal server errors
+ * @example
+ * GET /api/trades?status=PENDING&direction=received
+ * Response: [{ "id": 1, "status": "PENDING", "proposer": {...}, "recipient": {...}, "items": [...] }, ...]
+ */
+export const getUserTrades = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId
+    const { status, direction } = req.query
+
+    if (
+      status !== undefined &&
+      !Object.values(TradeStatus).includes(status as TradeStatus)
+    ) {
+      throw ValidationError.forField(
+        'status',
+        `status must be one of: ${Object.values(TradeStatus).join(', ')}`,
+      )
+    }
+    if (
+      direction !== undefined &&
+      !TRADE_DIRECTIONS.includes(direction as 'sent' | 'received')
+    ) {
+      throw ValidationError.forField(
+        'direction',
+        'direction must be "sent" or "received"',
+      )
+    }
+
+    const trades = await TradeService.getUserTrades(userId, {
+      status: status as TradeStatus | undefined,
+      direction: direction as 'sent' | 'received' | undefined,
+    })
+
+    res.status(200).json(trades)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves a trade the authenticated user takes part in.
+ * @param {Request} req - Express request object with trade ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the trade or error
+ * @throws {Error} Returns 400 for invalid trade ID, 404 if not found, 500 for internal server errors
+ * @example
+ * GET /api/trades/1
+ * Response: { "id": 1, "status": "PENDING", "proposer": {...}, "recipient": {...}, "items": [...] }
+ */
+export const getTradeById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tradeId = parseTradeId(req)
+
+    const trade = await TradeService.getTradeById(tradeId, req.user!.userId)
+
+    res.status(200).json(trade)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Accepts a trade received by the authenticated user and swaps the cards.
+ * @param {Request} req - Express request object with trade ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the accepted trade and the decks flagged as invalid, or error
+ * @throws {Error} Returns 400 for invalid trade ID, 403 if the user is not the recipient, 404 if not found
+ * @throws {Error} Returns 409 if the trade is no longer pending or a side no longer owns the cards
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/trades/1/accept
+ * Response: { "trade": { "id": 1, "status": "ACCEPTED", ... }, "invalidatedDecks": [{ "id": 3, "name": "Electric Deck", "userId": 1 }] }
+ */
+export const acceptTrade = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tradeId = parseTradeId(req)
+
+    const result = await TradeService.acceptTrade(tradeId, req.user!.userId)
+
+    res.status(200).json(result)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Declines a trade received by the authenticated user.
+ * @param {Request} req - Express request object with trade ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the declined trade or error
+ * @throws {Error} Returns 400 for invalid trade ID, 403 if the user is not the recipient, 404 if not found
+ * @throws {Error} Returns 409 if the trade is no longer pending, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/decline
+ * Response: { "id": 1, "status": "DECLINED", ... }
+ */
+export const declineTrade = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tradeId = parseTradeId(req)
+
+    const trade = await TradeService.declineTrade(tradeId, req.user!.userId)
+
+    res.status(200).json(trade)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Cancels a trade proposed by the authenticated user.
+ * @param {Request} req - Express request object with trade ID in params and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the cancelled trade or error
+ * @throws {Error} Returns 400 for invalid trade ID, 403 if the user is not the proposer, 404 if not found
+ * @throws {Error} Returns 409 if the trade is no longer pending, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/cancel
+ * Response: { "id": 1, "status": "CANCELLED", ... }
+ */
+export const cancelTrade = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tradeId = parseTradeId(req)
+
+    const trade = await TradeService.cancelTrade(tradeId, req.user!.userId)
+
+    res.status(200).json(trade)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Answers a trade received by the authenticated user with a counter-offer.
+ * @param {Request} req - Express request object with trade ID in params, the counter-offer in body and user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the new pending trade or error
+ * @throws {Error} Returns 400 for invalid trade ID or offer, 403 if the user is not the recipient, 404 if not found
+ * @throws {Error} Returns 409 if the trade is no longer pending or a side does not own the cards
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * Body: { "offeredCards": [{ "cardId": 4 }], "requestedCards": [{ "cardId": 25 }, { "cardId": 1 }] }
+ * Response: { "id": 2, "status": "PENDING", "counterOfId": 1, ... }
+ */
+export const counterTrade = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tradeId = parseTradeId(req)
+
+    const { offeredCards, requestedCards, message } = req.body ?? {}
+    const trade = await TradeService.counterTrade(tradeId, req.user!.userId, {
+      offeredCards,
+      requestedCards,
+      message,
+    })
+
+    res.status(201).json(trade)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
@@ -0,0 +1,174 @@
+import { ValidationError } from '../errors/app.errors'
+import { TradeSide } from '../generated/prisma/client'
+
+/**
+ * Lecture des offres d'échange et comparaison avec les cartes possédées
+ */
+
+export const MAX_MESSAGE_LENGTH = 500
+
+export interface TradeOffer {
+  offeredCards?: unknown
+  requestedCards?: unknown
+  message?: unknown
+}
+
+export interface TradeItemInput {
+  side: TradeSide
+  cardId: number
+  quantity: number
+}
+
+// Quantité échangée de chaque carte, par ID de carte
+export type TradeCards = Map<number, number>
+
+export interface ParsedTradeOffer {
+  offered: TradeCards
+  requested: TradeCards
+  message?: string
+}
+
+export interface MissingCard {
+  userId: number
+  cardId: number
+  quantity: number
+  owned: number
+}
+
+/**
+ * Parses the cards of one side of a trade and merges duplicate card IDs.
+ * @param {unknown} value - The cards sent by the client: [{ cardId, quantity? }]
+ * @param {string} field - The name of the field, for error messages
+ * @returns {TradeCards} The quantity of each card ID
+ * @throws {ValidationError} If the value is not an array of cards with positive quantities
+ */
+export function parseTradeCards(value: unknown, field: string): TradeCards {
+  const quantities: TradeCards = new Map()
+  if (value === undefined) return quantities
+
+  const error = ValidationError.forField(
+    field,
+    `${field} must be an array of { cardId, quantity } with positive integers`,
+  )
+  if (!Array.isArray(value)) throw error
+
+  for (const entry of value) {
+    const { cardId, quantity = 1 } = (entry ?? {}) as Record<string, unknown>
+    if (
+      !Number.isInteger(cardId) ||
+      !Number.isInteger(quantity) ||
+      (quantity as number) < 1
+    ) {
+      throw error
+    }
+    quantities.set(
+      cardId as number,
+      (quantities.get(cardId as number) ?? 0) + (quantity as number),
+    )
+  }
+  return quantities
+}
+
+/**
+ * Validates the shape of an offer: the two users, the message and the cards of each side.
+ * @param {number} proposerId - The ID of the user making the offer
+ * @param {number} recipientId - The ID of the user receiving the offer
+ * @param {TradeOffer} offer - The offered and requested cards and an optional message
+ * @returns {ParsedTradeOffer} The cards of each side and the message
+ * @throws {ValidationError} If the users are the same, the message is invalid, or the offer has no card
+ * @example
+ * parseTradeOffer(1, 2, { offeredCards: [{ cardId: 25 }], requestedCards: [{ cardId: 4, quantity: 2 }] })
+ */
+export function parseTradeOffer(
+  proposerId: number,
+  recipientId: number,
+  offer: TradeOffer,
+): ParsedTradeOffer {
+  if (proposerId === recipientId) {
+    throw ValidationError.forField(
+      'recipientId',
+      'You cannot trade with yourself',
+    )
+  }
+  if (
+    offer.message !== undefined &&
+    (typeof offer.message !== 'string' ||
+      offer.message.length > MAX_MESSAGE_LENGTH)
+  ) {
+    throw ValidationError.forField(
+      'message',
+      `message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`,
+    )
+  }
+
+  const offered = parseTradeCards(offer.offeredCards, 'offeredCards')
+  const requested = parseTradeCards(offer.requestedCards, 'requestedCards')
+  if (offered.size === 0 && requested.size === 0) {
+    throw new ValidationError('A trade must include at least one card')
+  }
+  return { offered, requested, message: offer.message }
+}
+
+/**
+ * Lists the cards of a trade as stored items, offered cards first.
+ * @param {TradeCards} offered - The cards given by the proposer
+ * @param {TradeCards} requested - The cards given by the recipient
+ * @returns {TradeItemInput[]} One item per card and side
+ */
+export function toTradeItems(
+  offered: TradeCards,
+  requested: TradeCards,
+): TradeItemInput[] {
+  return [
+    ...[...offered].map(([cardId, quantity]) => ({
+      side: TradeSide.OFFERED,
+      cardId,
+      quantity,
+    })),
+    ...[...requested].map(([cardId, quantity]) => ({
+      side: TradeSide.REQUESTED,
+      cardId,
+      quantity,
+    })),
+  ]
+}
+
+/**
+ * Splits the stored items of a trade by side.
+ * @param {TradeItemInput[]} items - The cards of the trade
+ * @returns {object} The quantity of each offered and requested card ID
+ */
+export function groupTradeItems(items: TradeItemInput[]): {
+  offered: TradeCards
+  requested: TradeCards
+} {
+  const offered: TradeCards = new Map()
+  const requested: TradeCards = new Map()
+  for (const item of items) {
+    const side = item.side === TradeSide.OFFERED ? offered : requested
+    side.set(item.cardId, item.quantity)
+  }
+  return { offered, requested }
+}
+
+/**
+ * Compares the cards a user gives with the cards they own.
+ * @param {number} userId - The ID of the user giving the cards
+ * @param {TradeCards} quantities - The quantity of each card ID given
+ * @param {Map<number, number>} owned - The quantity owned of each card ID (missing IDs count as 0)
+ * @returns {MissingCard[]} The cards the user does not own in the given quantity
+ */
+export function diffOwnedCards(
+  userId: number,
+  quantities: TradeCards,
+  owned: Map<number, number>,
+): MissingCard[] {
+  return [...quantities]
+    .map(([cardId, quantity]) => ({
+      userId,
+      cardId,
+      quantity,
+      owned: owned.get(cardId) ?? 0,
+    }))
+    .filter((card) => card.owned < card.quantity)
+}
@@ -0,0 +1,120 @@
+import { prisma } from '../database'
+import { Prisma, TradeStatus } from '../generated/prisma/client'
+import { TradeItemInput } from './trade.offer'
+
+// Détails renvoyés pour chaque échange
+const tradeInclude = {
+  proposer: { select: { id: true, username: true } },
+  recipient: { select: { id: true, username: true } },
+  items: { include: { card: true }, orderBy: { id: 'asc' } },
+} satisfies Prisma.TradeInclude
+
+export class TradeRepository {
+  /**
+   * Checks whether a user exists.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<boolean>} True if the user exists
+   */
+  static async userExists(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    })
+    return user !== null
+  }
+
+  /**
+   * Retrieves the cards with the given IDs.
+   * @param {number[]} cardIds - The IDs of the cards
+   * @returns {Promise<any[]>} The existing cards
+   */
+  static async findCardsByIds(cardIds: number[]) {
+    return await prisma.card.findMany({
+      where: { id: { in: cardIds } },
+      select: { id: true },
+    })
+  }
+
+  /**
+   * Creates a pending trade with its cards.
+   * @param {object} data - The proposer, the recipient, the optional message and the trade it counters
+   * @param {TradeItemInput[]} items - The offered and requested cards
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any>} The created trade with its users and cards
+   */
+  static async createTrade(
+    data: {
+      proposerId: number
+      recipientId: number
+      message?: string
+      counterOfId?: number
+    },
+    items: TradeItemInput[],
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.trade.create({
+      data: { ...data, items: { create: items } },
+      include: tradeInclude,
+    })
+  }
+
+  /**
+   * Retrieves the trades a user proposed or received, most recent first.
+   * @param {number} userId - The ID of the user
+   * @param {object} filters - Optional status and direction (sent or received)
+   * @returns {Promise<any[]>} The trades with their users and cards
+   */
+  static async getUserTrades(
+    userId: number,
+    filters: { status?: TradeStatus; direction?: 'sent' | 'received' },
+  ) {
+    const participant =
+      filters.direction === 'sent'
+        ? { proposerId: userId }
+        : filters.direction === 'received'
+          ? { recipientId: userId }
+          : { OR: [{ proposerId: userId }, { recipientId: userId }] }
+
+    return await prisma.trade.findMany({
+      where: { ...participant, status: filters.status },
+      include: tradeInclude,
+      orderBy: { createdAt: 'desc' },
+    })
+  }
+
+  /**
+   * Retrieves a trade by ID.
+   * @param {number} tradeId - The ID of the trade
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<any|null>} The trade with its users and cards, or null if not found
+   */
+  static async getTradeById(
+    tradeId: number,
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    return await client.trade.findUnique({
+      where: { id: tradeId },
+      include: tradeInclude,
+    })
+  }
+
+  /**
+   * Closes a pending trade. Does nothing if the trade is no longer pending,
+   * so two concurrent answers cannot both succeed.
+   * @param {number} tradeId - The ID of the trade
+   * @param {TradeStatus} status - The final status of the trade
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<boolean>} True if the trade was still pending and is now closed
+   */
+  static async closeTrade(
+    tradeId: number,
+    status: TradeStatus,
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    const { count } = await client.trade.updateMany({
+      where: { id: tradeId, status: TradeStatus.PENDING },
+      data: { status, respondedAt: new Date() },
+    })
+    return count > 0
+  }
+}
@@ -0,0 +1,125 @@
+import { Router } from 'express'
+import { authenticateToken } from '../Authentification/auth.route'
+import {
+  acceptTrade,
+  cancelTrade,
+  counterTrade,
+  declineTrade,
+  getTradeById,
+  getUserTrades,
+  proposeTrade,
+} from './trade.controleur'
+
+export const tradeRouter = Router()
+
+// Appliquer le middleware d'authentification à toutes les routes
+tradeRouter.use(authenticateToken)
+
+/**
+ * POST /api/trades
+ * Proposes a trade to another user: offered cards for requested cards.
+ * Both sides must own the cards they give.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with `recipientId`, `offeredCards`, `requestedCards` and optional `message` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the pending trade or error
+ * @throws {Error} Returns 400 for an invalid offer, 404 if the recipient does not exist, 409 if cards are not owned, 500 for internal server errors
+ * @example
+ * POST /api/trades
+ * Authorization: Bearer <token>
+ * Body: { "recipientId": 2, "offeredCards": [{ "cardId": 25 }], "requestedCards": [{ "cardId": 4 }] }
+ * Response: { "id": 1, "status": "PENDING", "items": [...] }
+ */
+tradeRouter.post('/', proposeTrade)
+
+/**
+ * GET /api/trades
+ * Retrieves the trades the authenticated user proposed or received, most recent first.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with optional `status` and `direction` (sent or received) query parameters
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with array of trades or error
+ * @throws {Error} Returns 400 for invalid filters, 500 for internal server errors
+ * @example
+ * GET /api/trades?status=PENDING&direction=received
+ * Authorization: Bearer <token>
+ * Response: [{ "id": 1, "status": "PENDING", ... }, ...]
+ */
+tradeRouter.get('/', getUserTrades)
+
+/**
+ * GET /api/trades/:id
+ * Retrieves a trade the authenticated user takes part in.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with trade ID in params
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the trade or error
+ * @throws {Error} Returns 400 for invalid trade ID, 404 if not found, 500 for internal server errors
+ * @example
+ * GET /api/trades/1
+ * Authorization: Bearer <token>
+ * Response: { "id": 1, "status": "PENDING", ... }
+ */
+tradeRouter.get('/:id', getTradeById)
+
+/**
+ * POST /api/trades/:id/accept
+ * Accepts a received trade: the cards change hands in a single transaction.
+ * Decks left with cards their owner no longer has are flagged as invalid.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with trade ID in params
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the accepted trade and the invalidated decks, or error
+ * @throws {Error} Returns 403 if not the recipient, 404 if not found, 409 if not pending or cards are no longer owned, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/accept
+ * Authorization: Bearer <token>
+ * Response: { "trade": { "id": 1, "status": "ACCEPTED", ... }, "invalidatedDecks": [] }
+ */
+tradeRouter.post('/:id/accept', acceptTrade)
+
+/**
+ * POST /api/trades/:id/decline
+ * Declines a received trade.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with trade ID in params
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the declined trade or error
+ * @throws {Error} Returns 403 if not the recipient, 404 if not found, 409 if not pending, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/decline
+ * Authorization: Bearer <token>
+ * Response: { "id": 1, "status": "DECLINED", ... }
+ */
+tradeRouter.post('/:id/decline', declineTrade)
+
+/**
+ * POST /api/trades/:id/counter
+ * Answers a received trade with a counter-offer, proposed back to the original proposer.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with trade ID in params and `offeredCards`, `requestedCards` and optional `message` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the new pending trade or error
+ * @throws {Error} Returns 400 for an invalid offer, 403 if not the recipient, 404 if not found, 409 if not pending or cards are not owned, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/counter
+ * Authorization: Bearer <token>
+ * Body: { "offeredCards": [{ "cardId": 4 }], "requestedCards": [{ "cardId": 25 }, { "cardId": 1 }] }
+ * Response: { "id": 2, "status": "PENDING", "counterOfId": 1, ... }
+ */
+tradeRouter.post('/:id/counter', counterTrade)
+
+/**
+ * POST /api/trades/:id/cancel
+ * Cancels a trade proposed by the authenticated user.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with trade ID in params
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the cancelled trade or error
+ * @throws {Error} Returns 403 if not the proposer, 404 if not found, 409 if not pending, 500 for internal server errors
+ * @example
+ * POST /api/trades/1/cancel
+ * Authorization: Bearer <token>
+ * Response: { "id": 1, "status": "CANCELLED", ... }
+ */
+tradeRouter.post('/:id/cancel', cancelTrade)
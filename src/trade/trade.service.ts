@@ -0,0 +1,380 @@
+import { prisma } from '../database'
+import { Prisma, TradeStatus } from '../generated/prisma/client'
+import { CollectionRepository } from '../collection/collection.repository'
+import { CollectionService } from '../collection/collection.service'
+import { DeckService } from '../deck/deck.service'
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/app.errors'
+import { TradeRepository } from './trade.repository'
+import {
+  diffOwnedCards,
+  groupTradeItems,
+  MissingCard,
+  parseTradeOffer,
+  toTradeItems,
+  TradeCards,
+  TradeOffer,
+} from './trade.offer'
+
+/**
+ * Error raised when one side of a trade does not own the traded cards.
+ * Carries every missing card so the client can show them all at once.
+ */
+export class TradeOwnershipError extends ConflictError {
+  constructor(
+    message: string,
+    public readonly missing: MissingCard[],
+  ) {
+    super(message, { code: 'CARDS_NOT_OWNED', extensions: { missing } })
+  }
+}
+
+export class TradeService {
+  /**
+   * Checks that a user owns at least the given quantity of each card.
+   * @param {number} userId - The ID of the user giving the cards
+   * @param {TradeCards} quantities - The quantity of each card ID
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<MissingCard[]>} The cards the user does not own in the given quantity
+   */
+  private static async findMissingCards(
+    userId: number,
+    quantities: TradeCards,
+    client?: Prisma.TransactionClient,
+  ): Promise<MissingCard[]> {
+    if (quantities.size === 0) return []
+
+    const owned = await CollectionService.getOwnedQuantities(
+      userId,
+      [...quantities.keys()],
+      client,
+    )
+    return diffOwnedCards(userId, quantities, owned)
+  }
+
+  /**
+   * Checks that both sides of a trade own the cards they give.
+   * @param {object} proposer - The proposer and the cards they offer
+   * @param {object} recipient - The recipient and the cards they are asked for
+   * @param {Prisma.TransactionClient} [client] - Optional transaction client
+   * @returns {Promise<void>} Resolves if both sides own their cards
+   * @throws {TradeOwnershipError} If a card is not owned in the traded quantity
+   */
+  private static async assertOwnership(
+    proposer: { userId: number; cards: TradeCards },
+    recipient: { userId: number; cards: TradeCards },
+    client?: Prisma.TransactionClient,
+  ) {
+    const missing = [
+      ...(await TradeService.findMissingCards(
+        proposer.userId,
+        proposer.cards,
+        client,
+      )),
+      ...(await TradeService.findMissingCards(
+        recipient.userId,
+        recipient.cards,
+        client,
+      )),
+    ]
+    if (missing.length > 0) {
+      throw new TradeOwnershipError(
+        'Some cards are not owned in the traded quantities',
+        missing,
+      )
+    }
+  }
+
+  /**
+   * Validates an offer and returns its cards.
+   * @param {number} proposerId - The ID of the user making the offer
+   * @param {number} recipientId - The ID of the user receiving the offer
+   * @param {TradeOffer} offer - The offered and requested cards and an optional message
+   * @returns {Promise<object>} The cards of the offer and its message
+   * @throws {ValidationError} If the offer is malformed, empty, or refers to unknown cards
+   * @throws {NotFoundError} If the recipient does not exist
+   * @throws {TradeOwnershipError} If a side does not own the cards it gives
+   */
+  private static async prepareOffer(
+    proposerId: number,
+    recipientId: number,
+    offer: TradeOffer,
+  ) {
+    const { offered, requested, message } = parseTradeOffer(
+      proposerId,
+      recipientId,
+      offer,
+    )
+
+    if (!(await TradeRepository.userExists(recipientId))) {
+      throw new NotFoundError('Recipient not found', { code: 'USER_NOT_FOUND' })
+    }
+
+    const cardIds = [...new Set([...offered.keys(), ...requested.keys()])]
+    const cards = await TradeRepository.findCardsByIds(cardIds)
+    const existingIds = new Set(cards.map((card) => card.id))
+    const unknownIds = cardIds.filter((id) => !existingIds.has(id))
+    if (unknownIds.length > 0) {
+      throw new ValidationError(`Unknown card IDs: ${unknownIds.join(', ')}`, {
+        code: 'UNKNOWN_CARDS',
+      })
+    }
+
+    await TradeService.assertOwnership(
+      { userId: proposerId, cards: offered },
+      { userId: recipientId, cards: requested },
+    )
+
+    return { items: toTradeItems(offered, requested), message }
+  }
+
+  /**
+   * Proposes a trade: cards of the proposer for cards of the recipient.
+   * @param {number} proposerId - The ID of the user proposing the trade
+   * @param {unknown} recipientId - The ID of the user the trade is proposed to
+   * @param {TradeOffer} offer - The offered and requested cards and an optional message
+   * @returns {Promise<any>} The pending trade
+   * @throws {ValidationError} If the offer is invalid
+   * @throws {NotFoundError} If the recipient does not exist
+   * @throws {TradeOwnershipError} If a side does not own the cards it gives
+   */
+  static async proposeTrade(
+    proposerId: number,
+    recipientId: unknown,
+    offer: TradeOffer,
+  ) {
+    if (!Number.isInteger(recipientId)) {
+      throw ValidationError.forField('recipientId', 'Recipient ID is required')
+    }
+
+    const { items, message } = await TradeService.prepareOffer(
+      proposerId,
+      recipientId as number,
+      offer,
+    )
+    return await TradeRepository.createTrade(
+      { proposerId, recipientId: recipientId as number, message },
+      items,
+    )
+  }
+
+  /**
+   * Retrieves the trades a user proposed or received.
+   * @param {number} userId - The ID of the user
+   * @param {object} filters - Optional status and direction (sent or received)
+   * @returns {Promise<any[]>} The trades, most recent first
+   */
+  static async getUserTrades(
+    userId: number,
+    filters: { status?: TradeStatus; direction?: 'sent' | 'received' },
+  ) {
+    return await TradeRepository.getUserTrades(userId, filters)
+  }
+
+  /**
+   * Retrieves a trade the user takes part in.
+   * @param {number} tradeId - The ID of the trade
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any>} The trade with its users and cards
+   * @throws {NotFoundError} If the trade is not found or the user is not part of it
+   */
+  static async getTradeById(tradeId: number, userId: number) {
+    const trade = await TradeRepository.getTradeById(tradeId)
+    if (
+      !trade ||
+      (trade.proposerId !== userId && trade.recipientId !== userId)
+    ) {
+      throw new NotFoundError('Trade not found', { code: 'TRADE_NOT_FOUND' })
+    }
+    return trade
+  }
+
+  /**
+   * Accepts a trade: ownership of the cards moves in a single transaction.
+   * Both sides must still own the traded cards; decks left with cards
+   * their owner no longer has are flagged as invalid.
+   * @param {number} tradeId - The ID of the trade
+   * @param {number} userId - The ID of the user accepting, who must be the recipient
+   * @returns {Promise<object>} The accepted trade and the decks flagged as invalid
+   * @throws {NotFoundError} If the trade is not found
+   * @throws {ForbiddenError} If the user is not the recipient
+   * @throws {ConflictError} If the trade is no longer pending
+   * @throws {TradeOwnershipError} If a side no longer owns the cards it gives
+   */
+  static async acceptTrade(tradeId: number, userId: number) {
+    const trade = await TradeService.getTradeById(tradeId, userId)
+    if (trade.recipientId !== userId) {
+      throw new ForbiddenError('Only the recipient can accept this trade')
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Verrouiller les deux joueurs dans un ordre fixe pour éviter les interblocages
+      for (const id of [trade.proposerId, trade.recipientId].sort(
+        (a, b) => a - b,
+      )) {
+        await CollectionRepository.lockUser(id, tx)
+      }
+
+      if (
+        !(await TradeRepository.closeTrade(tradeId, TradeStatus.ACCEPTED, tx))
+      ) {
+        throw new ConflictError('Trade is no longer pending', {
+          code: 'TRADE_NOT_PENDING',
+        })
+      }
+
+      const { offered, requested } = groupTradeItems(trade.items)
+      await TradeService.assertOwnership(
+        { userId: trade.proposerId, cards: offered },
+        { userId: trade.recipientId, cards: requested },
+        tx,
+      )
+
+      await CollectionRepository.removeCards(trade.proposerId, offered, tx)
+      await CollectionRepository.addCards(trade.recipientId, offered, tx)
+      await CollectionRepository.removeCards(trade.recipientId, requested, tx)
+      await CollectionRepository.addCards(trade.proposerId, requested, tx)
+
+      const invalidatedDecks = [
+        ...(await DeckService.flagDecksMissingCards(
+          trade.proposerId,
+          [...offered.keys()],
+          tx,
+        )),
+        ...(await DeckService.flagDecksMissingCards(
+          trade.recipientId,
+          [...requested.keys()],
+          tx,
+        )),
+      ]
+
+      return {
+        trade: await TradeRepository.getTradeById(tradeId, tx),
+        invalidatedDecks,
+      }
+    })
+  }
+
+  /**
+   * Closes a pending trade without moving any card.
+   * @param {number} tradeId - The ID of the trade
+   * @param {number} userId - The ID of the user answering
+   * @param {string} role - The side allowed to close the trade with this status
+   * @param {TradeStatus} status - DECLINED (recipient) or CANCELLED (proposer)
+   * @returns {Promise<any>} The closed trade
+   * @throws {NotFoundError} If the trade is not found
+   * @throws {ForbiddenError} If the user is not allowed to close it
+   * @throws {ConflictError} If the trade is no longer pending
+   */
+  private static async closeTrade(
+    tradeId: number,
+    userId: number,
+    role: 'proposer' | 'recipient',
+    status: TradeStatus,
+  ) {
+    const trade = await TradeService.getTradeById(tradeId, userId)
+    const allowedId = role === 'proposer' ? trade.proposerId : trade.recipientId
+    if (allowedId !== userId) {
+      throw new ForbiddenError(
+        `Only the ${role} can ${status === TradeStatus.CANCELLED ? 'cancel' : 'decline'} this trade`,
+      )
+    }
+
+    if (!(await TradeRepository.closeTrade(tradeId, status))) {
+      throw new ConflictError('Trade is no longer pending', {
+        code: 'TRADE_NOT_PENDING',
+      })
+    }
+    return (await TradeRepository.getTradeById(tradeId))!
+  }
+
+  /**
+   * Declines a trade. Only the recipient can decline.
+   * @param {number} tradeId - The ID of the trade
+   * @param {number} userId - The ID of the user declining
+   * @returns {Promise<any>} The declined trade
+   * @throws {NotFoundError} If the trade is not found
+   * @throws {ForbiddenError} If the user is not the recipient
+   * @throws {ConflictError} If the trade is no longer pending
+   */
+  static async declineTrade(tradeId: number, userId: number) {
+    return await TradeService.closeTrade(
+      tradeId,
+      userId,
+      'recipient',
+      TradeStatus.DECLINED,
+    )
+  }
+
+  /**
+   * Cancels a trade. Only the proposer can cancel.
+   * @param {number} tradeId - The ID of the trade
+   * @param {number} userId - The ID of the user cancelling
+   * @returns {Promise<any>} The cancelled trade
+   * @throws {NotFoundError} If the trade is not found
+   * @throws {ForbiddenError} If the user is not the proposer
+   * @throws {ConflictError} If the trade is no longer pending
+   */
+  static async cancelTrade(tradeId: number, userId: number) {
+    return await TradeService.closeTrade(
+      tradeId,
+      userId,
+      'proposer',
+      TradeStatus.CANCELLED,
+    )
+  }
+
+  /**
+   * Answers a trade with another offer. The original trade is closed as COUNTERED
+   * and a new pending trade is proposed to the original proposer.
+   * @param {number} tradeId - The ID of the trade to counter
+   * @param {number} userId - The ID of the user countering, who must be the recipient
+   * @param {TradeOffer} offer - The cards of the counter-offer, from the point of view of the user countering
+   * @returns {Promise<any>} The new pending trade
+   * @throws {NotFoundError} If the trade is not found
+   * @throws {ForbiddenError} If the user is not the recipient
+   * @throws {ConflictError} If the trade is no longer pending
+   * @throws {ValidationError} If the offer is invalid
+   * @throws {TradeOwnershipError} If a side does not own the cards it gives
+   */
+  static async counterTrade(
+    tradeId: number,
+    userId: number,
+    offer: TradeOffer,
+  ) {
+    const trade = await TradeService.getTradeById(tradeId, userId)
+    if (trade.recipientId !== userId) {
+      throw new ForbiddenError('Only the recipient can counter this trade')
+    }
+
+    const { items, message } = await TradeService.prepareOffer(
+      userId,
+      trade.proposerId,
+      offer,
+    )
+
+    return await prisma.$transaction(async (tx) => {
+      if (
+        !(await TradeRepository.closeTrade(tradeId, TradeStatus.COUNTERED, tx))
+      ) {
+        throw new ConflictError('Trade is no longer pending', {
+          code: 'TRADE_NOT_PENDING',
+        })
+      }
+      return await TradeRepository.createTrade(
+        {
+          proposerId: userId,
+          recipientId: trade.proposerId,
+          message,
+          counterOfId: tradeId,
+        },
+        items,
+        tx,
+      )
+    })
+  }
+}
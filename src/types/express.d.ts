@@ -1,10 +1,13 @@
 import 'express'
+import { Role } from '../generated/prisma/client'
 
 declare module 'express' {
   interface Request {
     user?: {
       userId: number
       email: string
+      sessionId: string
+      role: Role
     }
   }
 }
@@ -0,0 +1,13 @@
+import 'socket.io'
+import { Role } from '../generated/prisma/client'
+
+declare module 'socket.io' {
+  interface Socket {
+    user?: {
+      userId: number
+      email: string
+      sessionId: string
+      role: Role
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { NextFunction, Request, Response } from 'express'
+import { UserService } from './user.service'
+
+/**
+ * Retrieves the account of the authenticated user.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the account or error
+ * @throws {Error} Returns 404 if the user does not exist anymore
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/users/me
+ * Response: { "id": 1, "email": "red@example.com", "username": "red", "role": "USER", "rating": 1012, "ratedGames": 1, "createdAt": "2023-01-01T00:00:00.000Z", "deckCount": 2 }
+ */
+export const getMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const account = await UserService.getAccount(req.user!.userId)
+
+    res.status(200).json(account)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Updates the email and/or username of the authenticated user.
+ * @param {Request} req - Express request object with the new `email` and/or `username` in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the updated account or error
+ * @throws {Error} Returns 409 if the email or the username is used by another account
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * PATCH /api/users/me
+ * Body: { "username": "red-trainer" }
+ * Response: { "id": 1, "email": "red@example.com", "username": "red-trainer", ... }
+ */
+export const updateMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { email, username } = req.body
+
+    const account = await UserService.updateAccount(req.user!.userId, {
+      email,
+      username,
+    })
+
+    res.status(200).json(account)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Changes the password of the authenticated user; the other sessions are revoked.
+ * @param {Request} req - Express request object with `currentPassword` and `newPassword` in body
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the number of revoked sessions or error
+ * @throws {Error} Returns 400 if the current password is incorrect
+ * @throws {Error} Returns 429 if the account is locked after too many failures
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * POST /api/users/me/password
+ * Body: { "currentPassword": "password123", "newPassword": "new-password" }
+ * Response: { "message": "Password updated", "revokedSessions": 2 }
+ */
+export const changeMyPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body
+
+    const revokedSessions = await UserService.changePassword(
+      req.user!.userId,
+      req.user!.sessionId,
+      currentPassword,
+      newPassword,
+    )
+
+    res.status(200).json({ message: 'Password updated', revokedSessions })
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Deletes the account of the authenticated user, with their decks and collection.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with success message or error
+ * @throws {Error} Returns 404 if the user does not exist anymore
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * DELETE /api/users/me
+ * Response: { "message": "Account deleted", "deletedDecks": 2 }
+ */
+export const deleteMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { deletedDecks } = await UserService.deleteAccount(req.user!.userId)
+
+    res.status(200).json({ message: 'Account deleted', deletedDecks })
+    return
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Retrieves the public profile of a user.
+ * @param {Request} req - Express request object with the username in params
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function, receives the errors
+ * @returns {Promise<void>} JSON response with the profile or error
+ * @throws {Error} Returns 404 if no user has this username
+ * @throws {Error} Returns 500 for internal server errors
+ * @example
+ * GET /api/users/red
+ * Response: { "id": 1, "username": "red", "rating": 1012, "ratedGames": 1, "deckCount": 2, "joinedAt": "2023-01-01T00:00:00.000Z" }
+ */
+export const getPublicProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const profile = await UserService.getPublicProfile(req.params.username)
+
+    res.status(200).json(profile)
+    return
+  } catch (error) {
+    next(error)
+  }
+}
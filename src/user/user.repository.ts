@@ -0,0 +1,129 @@
+import { prisma } from '../database'
+import { Prisma } from '../generated/prisma/client'
+
+// Informations du compte, visibles par son propriétaire uniquement
+const accountSelect = {
+  id: true,
+  email: true,
+  username: true,
+  role: true,
+  rating: true,
+  ratedGames: true,
+  createdAt: true,
+  _count: { select: { decks: true } },
+} satisfies Prisma.UserSelect
+
+// Profil public : ni email ni rôle
+const publicProfileSelect = {
+  id: true,
+  username: true,
+  rating: true,
+  ratedGames: true,
+  createdAt: true,
+  _count: { select: { decks: true } },
+} satisfies Prisma.UserSelect
+
+export class UserRepository {
+  /**
+   * Retrieves the account of a user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any|null>} The account with its deck count, or null if not found
+   */
+  static async findAccount(userId: number) {
+    return await prisma.user.findUnique({
+      where: { id: userId },
+      select: accountSelect,
+    })
+  }
+
+  /**
+   * Retrieves the public profile of a user by username.
+   * @param {string} username - The username
+   * @returns {Promise<any|null>} The profile with its deck count, or null if not found
+   */
+  static async findPublicProfile(username: string) {
+    return await prisma.user.findUnique({
+      where: { username },
+      select: publicProfileSelect,
+    })
+  }
+
+  /**
+   * Finds the users already using an email or a username.
+   * @param {string} [email] - The email to look for
+   * @param {string} [username] - The username to look for
+   * @returns {Promise<any[]>} The users using them, with their ID, email and username
+   */
+  static async findByEmailOrUsername(email?: string, username?: string) {
+    const conditions: Prisma.UserWhereInput[] = []
+    if (email !== undefined) conditions.push({ email })
+    if (username !== undefined) conditions.push({ username })
+    if (conditions.length === 0) return []
+
+    return await prisma.user.findMany({
+      where: { OR: conditions },
+      select: { id: true, email: true, username: true },
+    })
+  }
+
+  /**
+   * Retrieves the email and password hash of a user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any|null>} The credentials, or null if not found
+   */
+  static async findCredentials(userId: number) {
+    return await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, password: true },
+    })
+  }
+
+  /**
+   * Updates the email and/or username of a user.
+   * @param {number} userId - The ID of the user
+   * @param {object} data - The new email and/or username
+   * @returns {Promise<any>} The updated account
+   */
+  static async updateAccount(
+    userId: number,
+    data: { email?: string; username?: string },
+  ) {
+    return await prisma.user.update({
+      where: { id: userId },
+      data,
+      select: accountSelect,
+    })
+  }
+
+  /**
+   * Replaces the password hash of a user.
+   * @param {number} userId - The ID of the user
+   * @param {string} passwordHash - The bcrypt hash of the new password
+   * @returns {Promise<void>} Resolves when the password is updated
+   */
+  static async updatePassword(userId: number, passwordHash: string) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: passwordHash },
+    })
+  }
+
+  /**
+   * Deletes a user in a single transaction.
+   * Decks and their cards are deleted explicitly (their relations do not cascade); sessions,
+   * reset tokens, collection, boosters, trades and rating history cascade with the user.
+   * The match history of the opponents is kept: the user's participations lose their user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<object>} The number of decks deleted
+   */
+  static async deleteUser(userId: number) {
+    return await prisma.$transaction(async (tx) => {
+      await tx.deckCard.deleteMany({ where: { deck: { userId } } })
+      const { count: deletedDecks } = await tx.deck.deleteMany({
+        where: { userId },
+      })
+      await tx.user.delete({ where: { id: userId } })
+      return { deletedDecks }
+    })
+  }
+}
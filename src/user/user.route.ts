@@ -0,0 +1,78 @@
+import { Router } from 'express'
+import { authenticateToken } from '../Authentification/auth.route'
+import { validateBody } from '../docs/openapi'
+import {
+  changeMyPassword,
+  deleteMe,
+  getMe,
+  getPublicProfile,
+  updateMe,
+} from './user.controleur'
+
+export const userRouter = Router()
+
+// GET /api/users/me - Compte de l'utilisateur connecté
+userRouter.get('/me', authenticateToken, getMe)
+
+/**
+ * PATCH /api/users/me
+ * Updates the email and/or username of the authenticated user.
+ * Both must stay unique, like at sign-up.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with `email` and/or `username` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the updated account or error
+ * @throws {Error} Returns 400 if the body does not match the UserUpdateInput schema, 409 if the email or username is taken, 500 for internal server errors
+ * @example
+ * PATCH /api/users/me
+ * Authorization: Bearer <token>
+ * Body: { "email": "red@kanto.com" }
+ * Response: { "id": 1, "email": "red@kanto.com", "username": "red", ... }
+ */
+userRouter.patch(
+  '/me',
+  authenticateToken,
+  validateBody('UserUpdateInput'),
+  updateMe,
+)
+
+/**
+ * POST /api/users/me/password
+ * Changes the password of the authenticated user, who must send the current one.
+ * Every other session of the user is revoked.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with `currentPassword` and `newPassword` in body
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with the number of revoked sessions or error
+ * @throws {Error} Returns 400 if the body is invalid or the current password is incorrect, 429 if the account is locked, 500 for internal server errors
+ * @example
+ * POST /api/users/me/password
+ * Authorization: Bearer <token>
+ * Body: { "currentPassword": "password123", "newPassword": "new-password" }
+ * Response: { "message": "Password updated", "revokedSessions": 2 }
+ */
+userRouter.post(
+  '/me/password',
+  authenticateToken,
+  validateBody('PasswordChangeInput'),
+  changeMyPassword,
+)
+
+/**
+ * DELETE /api/users/me
+ * Deletes the account of the authenticated user.
+ * Its decks and deck cards are deleted in the same transaction as the user.
+ * Requires authentication token in header.
+ * @param {Request} req - Express request object with user authentication
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} JSON response with success message or error
+ * @throws {Error} Returns 401 if token is missing or invalid, 500 for internal server errors
+ * @example
+ * DELETE /api/users/me
+ * Authorization: Bearer <token>
+ * Response: { "message": "Account deleted", "deletedDecks": 2 }
+ */
+userRouter.delete('/me', authenticateToken, deleteMe)
+
+// GET /api/users/:username - Profil public d'un joueur
+userRouter.get('/:username', getPublicProfile)
@@ -0,0 +1,153 @@
+import bcrypt from 'bcryptjs'
+import { loginGuard } from '../Authentification/login.guard'
+import { TokenService } from '../Authentification/token.service'
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/app.errors'
+import { UserRepository } from './user.repository'
+
+export interface AccountChanges {
+  email?: string
+  username?: string
+}
+
+interface UserWithDeckCount {
+  createdAt: Date
+  _count: { decks: number }
+}
+
+/**
+ * Replaces the deck count returned by Prisma with a `deckCount` field.
+ * @param {UserWithDeckCount} user - The user read with its deck count
+ * @returns {object} The user with `deckCount`
+ */
+function withDeckCount<T extends UserWithDeckCount>({ _count, ...user }: T) {
+  return { ...user, deckCount: _count.decks }
+}
+
+export class UserService {
+  /**
+   * Checks that an email and a username are not used by another account.
+   * @param {AccountChanges} fields - The email and/or username to check
+   * @param {number} [exceptUserId] - The user allowed to already use them (the one updating their account)
+   * @returns {Promise<void>} Resolves if both are available
+   * @throws {ConflictError} If the email or the username is already used
+   */
+  static async assertAvailable(
+    { email, username }: AccountChanges,
+    exceptUserId?: number,
+  ) {
+    const users = await UserRepository.findByEmailOrUsername(email, username)
+    const others = users.filter((user) => user.id !== exceptUserId)
+
+    if (others.some((user) => user.email === email)) {
+      throw new ConflictError('Email already in use', { code: 'EMAIL_IN_USE' })
+    }
+    if (others.some((user) => user.username === username)) {
+      throw new ConflictError('Username already taken', {
+        code: 'USERNAME_TAKEN',
+      })
+    }
+  }
+
+  /**
+   * Retrieves the account of the authenticated user.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<any>} The account with its deck count
+   * @throws {NotFoundError} If the user does not exist anymore
+   */
+  static async getAccount(userId: number) {
+    const account = await UserRepository.findAccount(userId)
+    if (!account) {
+      throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' })
+    }
+    return withDeckCount(account)
+  }
+
+  /**
+   * Updates the email and/or username of a user.
+   * @param {number} userId - The ID of the user
+   * @param {AccountChanges} changes - The new email and/or username
+   * @returns {Promise<any>} The updated account
+   * @throws {ConflictError} If the email or the username is used by another account
+   */
+  static async updateAccount(userId: number, changes: AccountChanges) {
+    await UserService.assertAvailable(changes, userId)
+
+    const account = await UserRepository.updateAccount(userId, changes)
+    return withDeckCount(account)
+  }
+
+  /**
+   * Changes the password of a user after checking the current one.
+   * Failed checks count towards the account lockout, like failed sign-ins;
+   * on success, every other session of the user is revoked.
+   * @param {number} userId - The ID of the user
+   * @param {string} sessionId - The session to keep active
+   * @param {string} currentPassword - The current password
+   * @param {string} newPassword - The new password
+   * @returns {Promise<number>} The number of other sessions revoked
+   * @throws {NotFoundError} If the user does not exist anymore
+   * @throws {TooManyRequestsError} If the account is locked after too many failures
+   * @throws {ValidationError} If the current password is incorrect
+   */
+  static async changePassword(
+    userId: number,
+    sessionId: string,
+    currentPassword: string,
+    newPassword: string,
+  ) {
+    const user = await UserRepository.findCredentials(userId)
+    if (!user) {
+      throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' })
+    }
+
+    await loginGuard.assertNotLocked(user.email)
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      await loginGuard.recordFailure(user.email)
+      throw ValidationError.forField(
+        'currentPassword',
+        'Current password is incorrect',
+        'INVALID_CURRENT_PASSWORD',
+      )
+    }
+    await loginGuard.recordSuccess(user.email)
+
+    await UserRepository.updatePassword(
+      userId,
+      await bcrypt.hash(newPassword, 10),
+    )
+    return await TokenService.revokeAllSessions(userId, sessionId)
+  }
+
+  /**
+   * Deletes the account of a user with their decks, collection, sessions and trades.
+   * @param {number} userId - The ID of the user
+   * @returns {Promise<object>} The number of decks deleted
+   * @throws {NotFoundError} If the user does not exist anymore
+   */
+  static async deleteAccount(userId: number) {
+    const account = await UserRepository.findAccount(userId)
+    if (!account) {
+      throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' })
+    }
+    return await UserRepository.deleteUser(userId)
+  }
+
+  /**
+   * Retrieves the public profile of a user.
+   * @param {string} username - The username
+   * @returns {Promise<object>} The username, rating, deck count and join date
+   * @throws {NotFoundError} If no user has this username
+   */
+  static async getPublicProfile(username: string) {
+    const profile = await UserRepository.findPublicProfile(username)
+    if (!profile) {
+      throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' })
+    }
+    const { createdAt, ...user } = withDeckCount(profile)
+    return { ...user, joinedAt: createdAt }
+  }
+}
@@ -0,0 +1,92 @@
+import { Rarity } from '../generated/prisma/client'
+import { randomInt, Rng } from './random.util'
+
+/**
+ * Ouverture des boosters
+ * Fonctions pures : le tirage ne dépend que des cartes disponibles et du générateur fourni
+ */
+
+export const BOOSTER_SIZE = 5
+
+// Poids relatifs de chaque rareté dans un booster
+export const RARITY_WEIGHTS: Record<Rarity, number> = {
+  COMMON: 70,
+  UNCOMMON: 22,
+  RARE: 7,
+  LEGENDARY: 1,
+}
+
+// Artikodin, Électhor, Sulfura, Mewtwo, Mew
+export const LEGENDARY_POKEDEX_NUMBERS = [144, 145, 146, 150, 151]
+
+export interface BoosterCard {
+  id: number
+  rarity: Rarity
+}
+
+/**
+ * Returns the default rarity of a card from its stats.
+ * Legendary Pokemon are LEGENDARY, then the stronger the card, the rarer it is.
+ * @param {object} card - The stats of the card
+ * @returns {Rarity} The rarity of the card
+ */
+export function getDefaultRarity(card: {
+  hp: number
+  attack: number
+  defense: number
+  pokedexNumber: number
+}): Rarity {
+  if (LEGENDARY_POKEDEX_NUMBERS.includes(card.pokedexNumber)) {
+    return Rarity.LEGENDARY
+  }
+  const total = card.hp + card.attack + card.defense
+  if (total >= 270) return Rarity.RARE
+  if (total >= 220) return Rarity.UNCOMMON
+  return Rarity.COMMON
+}
+
+/**
+ * Draws the cards of a booster.
+ * Each card first gets a rarity from the rarity weights, then a card of that rarity.
+ * Rarities without any card are left out of the draw.
+ * @param {T[]} cards - The cards that can be drawn, in a stable order (e.g. by ID)
+ * @param {Rng} rng - The generator to draw with
+ * @param {number} [size] - The number of cards in the booster
+ * @returns {T[]} The drawn cards, duplicates possible
+ * @throws {Error} If there is no card to draw
+ * @example
+ * drawBooster(cards, createRng('seed'))
+ */
+export function drawBooster<T extends BoosterCard>(
+  cards: T[],
+  rng: Rng,
+  size: number = BOOSTER_SIZE,
+): T[] {
+  const byRarity = new Map<Rarity, T[]>()
+  for (const card of cards) {
+    byRarity.set(card.rarity, [...(byRarity.get(card.rarity) ?? []), card])
+  }
+
+  // Ordre fixe des raretés : une même graine redonne le même tirage
+  const rarities = Object.values(Rarity).filter((rarity) =>
+    byRarity.has(rarity),
+  )
+  if (rarities.length === 0) {
+    throw new Error('No card available for boosters')
+  }
+  const totalWeight = rarities.reduce(
+    (total, rarity) => total + RARITY_WEIGHTS[rarity],
+    0,
+  )
+
+  const drawn: T[] = []
+  for (let i = 0; i < size; i++) {
+    let roll = rng() * totalWeight
+    const rarity =
+      rarities.find((candidate) => (roll -= RARITY_WEIGHTS[candidate]) < 0) ??
+      rarities[rarities.length - 1]
+    const pool = byRarity.get(rarity)!
+    drawn.push(pool[randomInt(rng, pool.length)])
+  }
+  return drawn
+}
@@ -0,0 +1,230 @@
+import { PokemonType } from '../generated/prisma/client'
+import { LEGENDARY_POKEDEX_NUMBERS } from './booster.util'
+
+/**
+ * Formats de deck
+ * Chaque format nommé définit la taille du deck, le nombre d'exemplaires autorisés par carte,
+ * un plafond de PV total et les types ou cartes autorisés / bannis.
+ * La validation est pure et renvoie toutes les règles non respectées en une fois.
+ */
+
+export interface DeckFormatRules {
+  id: string
+  name: string
+  description: string
+  deckSize: number
+  // Nombre maximum d'exemplaires d'une même carte
+  maxCopies: number
+  // PV cumulés maximum des cartes du deck (null : pas de limite)
+  maxTotalHp: number | null
+  // Nombre maximum de types différents (null : pas de limite)
+  maxDistinctTypes: number | null
+  // Seuls ces types sont autorisés (null : tous les types)
+  allowedTypes: PokemonType[] | null
+  bannedTypes: PokemonType[]
+  // Cartes bannies, par numéro pokédex
+  bannedPokedexNumbers: number[]
+}
+
+export type DeckRule =
+  | 'unknownCards'
+  | 'notOwned'
+  | 'deckSize'
+  | 'maxCopies'
+  | 'maxTotalHp'
+  | 'maxDistinctTypes'
+  | 'allowedTypes'
+  | 'bannedTypes'
+  | 'bannedCards'
+
+export interface DeckRuleViolation {
+  rule: DeckRule
+  message: string
+  // Cartes en cause, quand la règle porte sur des cartes précises
+  cardIds?: number[]
+}
+
+export interface DeckRuleCard {
+  id: number
+  name: string
+  hp: number
+  type: PokemonType
+  pokedexNumber: number
+}
+
+export const DEFAULT_DECK_FORMAT = 'standard'
+
+export const DECK_FORMAT_RULES: Record<string, DeckFormatRules> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: '10 different cards, every type allowed',
+    deckSize: 10,
+    maxCopies: 1,
+    maxTotalHp: null,
+    maxDistinctTypes: null,
+    allowedTypes: null,
+    bannedTypes: [],
+    bannedPokedexNumbers: [],
+  },
+  'mono-type': {
+    id: 'mono-type',
+    name: 'Mono-type',
+    description: '10 different cards, all of the same type',
+    deckSize: 10,
+    maxCopies: 1,
+    maxTotalHp: null,
+    maxDistinctTypes: 1,
+    allowedTypes: null,
+    bannedTypes: [],
+    bannedPokedexNumbers: [],
+  },
+  'low-hp-cup': {
+    id: 'low-hp-cup',
+    name: 'Low-HP Cup',
+    description:
+      '10 cards with at most 2 copies each and 500 HP in total, Dragon type and legendary Pokemon banned',
+    deckSize: 10,
+    maxCopies: 2,
+    maxTotalHp: 500,
+    maxDistinctTypes: null,
+    allowedTypes: null,
+    bannedTypes: [PokemonType.Dragon],
+    bannedPokedexNumbers: LEGENDARY_POKEDEX_NUMBERS,
+  },
+  'starter-cup': {
+    id: 'starter-cup',
+    name: 'Starter Cup',
+    description: '10 different Grass, Fire or Water cards',
+    deckSize: 10,
+    maxCopies: 1,
+    maxTotalHp: null,
+    maxDistinctTypes: null,
+    allowedTypes: [PokemonType.Grass, PokemonType.Fire, PokemonType.Water],
+    bannedTypes: [],
+    bannedPokedexNumbers: [],
+  },
+}
+
+// Taille du plus grand deck autorisé, tous formats confondus
+export const MAX_DECK_SIZE = Math.max(
+  ...Object.values(DECK_FORMAT_RULES).map((format) => format.deckSize),
+)
+
+/**
+ * Returns the rules of a named deck format.
+ * @param {string} formatId - The ID of the format (e.g. "standard")
+ * @returns {DeckFormatRules | undefined} The format, or undefined if it does not exist
+ */
+export function getDeckFormat(formatId: string): DeckFormatRules | undefined {
+  return Object.hasOwn(DECK_FORMAT_RULES, formatId)
+    ? DECK_FORMAT_RULES[formatId]
+    : undefined
+}
+
+/**
+ * Checks a list of cards against the rules of a format.
+ * Every broken rule is reported, not only the first one.
+ * @param {DeckRuleCard[]} cards - The cards of the deck, one entry per copy
+ * @param {DeckFormatRules} format - The format to check against
+ * @param {number} [deckSize] - The number of cards in the deck, when some of them could not be loaded
+ * @returns {DeckRuleViolation[]} The broken rules, empty if the deck is valid
+ * @example
+ * validateDeckCards(cards, DECK_FORMAT_RULES.standard)
+ * // [{ rule: 'deckSize', message: 'A Standard deck must contain exactly 10 cards (found 9)' }]
+ */
+export function validateDeckCards(
+  cards: DeckRuleCard[],
+  format: DeckFormatRules,
+  deckSize: number = cards.length,
+): DeckRuleViolation[] {
+  const violations: DeckRuleViolation[] = []
+
+  if (deckSize !== format.deckSize) {
+    violations.push({
+      rule: 'deckSize',
+      message: `A ${format.name} deck must contain exactly ${format.deckSize} cards (found ${deckSize})`,
+    })
+  }
+
+  // Exemplaires par carte
+  const copies = new Map<number, number>()
+  for (const card of cards) {
+    copies.set(card.id, (copies.get(card.id) ?? 0) + 1)
+  }
+  const tooManyCopies = [...copies]
+    .filter(([, count]) => count > format.maxCopies)
+    .map(([cardId]) => cardId)
+  if (tooManyCopies.length > 0) {
+    violations.push({
+      rule: 'maxCopies',
+      message:
+        format.maxCopies === 1
+          ? 'Duplicate cards are not allowed'
+          : `A card cannot appear more than ${format.maxCopies} times`,
+      cardIds: tooManyCopies,
+    })
+  }
+
+  if (format.maxTotalHp !== null) {
+    const totalHp = cards.reduce((total, card) => total + card.hp, 0)
+    if (totalHp > format.maxTotalHp) {
+      violations.push({
+        rule: 'maxTotalHp',
+        message: `Total HP must not exceed ${format.maxTotalHp} (found ${totalHp})`,
+      })
+    }
+  }
+
+  if (format.maxDistinctTypes !== null) {
+    const types = new Set(cards.map((card) => card.type))
+    if (types.size > format.maxDistinctTypes) {
+      violations.push({
+        rule: 'maxDistinctTypes',
+        message: `A ${format.name} deck can use at most ${format.maxDistinctTypes} type(s) (found ${[...types].join(', ')})`,
+      })
+    }
+  }
+
+  const uniqueCards = [
+    ...new Map(cards.map((card) => [card.id, card])).values(),
+  ]
+
+  if (format.allowedTypes !== null) {
+    const allowedTypes = format.allowedTypes
+    const notAllowed = uniqueCards.filter(
+      (card) => !allowedTypes.includes(card.type),
+    )
+    if (notAllowed.length > 0) {
+      violations.push({
+        rule: 'allowedTypes',
+        message: `Only these types are allowed: ${allowedTypes.join(', ')}`,
+        cardIds: notAllowed.map((card) => card.id),
+      })
+    }
+  }
+
+  const bannedTypes = uniqueCards.filter((card) =>
+    format.bannedTypes.includes(card.type),
+  )
+  if (bannedTypes.length > 0) {
+    violations.push({
+      rule: 'bannedTypes',
+      message: `These types are banned: ${format.bannedTypes.join(', ')}`,
+      cardIds: bannedTypes.map((card) => card.id),
+    })
+  }
+
+  const bannedCards = uniqueCards.filter((card) =>
+    format.bannedPokedexNumbers.includes(card.pokedexNumber),
+  )
+  if (bannedCards.length > 0) {
+    violations.push({
+      rule: 'bannedCards',
+      message: `These cards are banned: ${bannedCards.map((card) => card.name).join(', ')}`,
+      cardIds: bannedCards.map((card) => card.id),
+    })
+  }
+
+  return violations
+}
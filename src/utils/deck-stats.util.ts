@@ -0,0 +1,190 @@
+import { PokemonType } from '../generated/prisma/client'
+import { calculateDamage, getWeakness } from './rules.util'
+
+/**
+ * Statistiques des decks
+ * Fonctions pures : répartition des types, statistiques des PV et de l'attaque,
+ * types super efficaces et estimation d'un affrontement entre deux decks
+ */
+
+export interface StatCard {
+  type: PokemonType
+  hp: number
+  attack: number
+  defense: number
+}
+
+export interface NumberSummary {
+  total: number
+  average: number
+  median: number
+}
+
+export interface MatchupEstimate {
+  pairings: number
+  wins: number
+  losses: number
+  draws: number
+  winRate: number
+  averageDamageDealt: number
+  averageDamageTaken: number
+}
+
+// Arrondi à deux décimales pour les moyennes et les taux
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Summarizes a list of numbers.
+ * @param {number[]} values - The values to summarize
+ * @returns {NumberSummary} The total, the average and the median (0 for an empty list)
+ * @example
+ * summarize([10, 40, 20]) // { total: 70, average: 23.33, median: 20 }
+ */
+export function summarize(values: number[]): NumberSummary {
+  if (values.length === 0) {
+    return { total: 0, average: 0, median: 0 }
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const total = sorted.reduce((sum, value) => sum + value, 0)
+
+  return {
+    total,
+    average: round(total / sorted.length),
+    median:
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle],
+  }
+}
+
+/**
+ * Counts the cards of each type.
+ * @param {StatCard[]} cards - The cards of the deck, one entry per copy
+ * @returns {object} The number of cards per type, only for the types present
+ */
+export function getTypeDistribution(
+  cards: StatCard[],
+): Partial<Record<PokemonType, number>> {
+  const distribution: Partial<Record<PokemonType, number>> = {}
+  for (const card of cards) {
+    distribution[card.type] = (distribution[card.type] ?? 0) + 1
+  }
+  return distribution
+}
+
+/**
+ * Lists the attacker types that hit cards of the deck super-effectively,
+ * from the type exploiting the weakness of the most cards.
+ * @param {StatCard[]} cards - The cards of the deck, one entry per copy
+ * @returns {object[]} The attacker types with the number of cards they are super-effective against
+ */
+export function getSuperEffectiveTypes(
+  cards: StatCard[],
+): { type: PokemonType; cardCount: number }[] {
+  const counts = new Map<PokemonType, number>()
+  for (const card of cards) {
+    const weakness = getWeakness(card.type)
+    if (weakness) {
+      counts.set(weakness, (counts.get(weakness) ?? 0) + 1)
+    }
+  }
+  return [...counts.entries()]
+    .map(([type, cardCount]) => ({ type, cardCount }))
+    .sort((a, b) => b.cardCount - a.cardCount || a.type.localeCompare(b.type))
+}
+
+/**
+ * Computes the statistics of a deck.
+ * @param {StatCard[]} cards - The cards of the deck, one entry per copy
+ * @returns {object} The card count, the type distribution, the HP and attack summaries and the super-effective types
+ */
+export function computeDeckStats(cards: StatCard[]) {
+  return {
+    cardCount: cards.length,
+    typeDistribution: getTypeDistribution(cards),
+    hp: summarize(cards.map((card) => card.hp)),
+    attack: summarize(cards.map((card) => card.attack)),
+    superEffectiveTypes: getSuperEffectiveTypes(cards),
+  }
+}
+
+/**
+ * Returns the number of attacks a card needs to knock out another one.
+ * @param {StatCard} attacker - The attacking card
+ * @param {StatCard} defender - The defending card
+ * @returns {number} The number of attacks, Infinity if the attacker deals no damage
+ */
+function hitsToKnockOut(attacker: StatCard, defender: StatCard): number {
+  const damage = calculateDamage(
+    attacker.attack,
+    attacker.type,
+    defender.type,
+    defender.defense,
+  )
+  return damage > 0 ? Math.ceil(defender.hp / damage) : Infinity
+}
+
+/**
+ * Estimates how a deck fares against another one.
+ * Every card of the deck is opposed to every card of the other deck: the card needing
+ * fewer attacks to knock the other out wins the pairing, an equal count is a draw.
+ * @param {StatCard[]} deck - The cards of the deck
+ * @param {StatCard[]} opponent - The cards of the opposing deck
+ * @returns {MatchupEstimate} The outcome of the pairings, draws counting as half a win in the win rate
+ */
+export function estimateMatchup(
+  deck: StatCard[],
+  opponent: StatCard[],
+): MatchupEstimate {
+  let wins = 0
+  let losses = 0
+  let damageDealt = 0
+  let damageTaken = 0
+
+  for (const card of deck) {
+    for (const target of opponent) {
+      damageDealt += calculateDamage(
+        card.attack,
+        card.type,
+        target.type,
+        target.defense,
+      )
+      damageTaken += calculateDamage(
+        target.attack,
+        target.type,
+        card.type,
+        card.defense,
+      )
+
+      const dealt = hitsToKnockOut(card, target)
+      const taken = hitsToKnockOut(target, card)
+      if (dealt < taken) wins++
+      else if (dealt > taken) losses++
+    }
+  }
+
+  const pairings = deck.length * opponent.length
+  if (pairings === 0) {
+    return {
+      pairings,
+      wins,
+      losses,
+      draws: 0,
+      winRate: 0,
+      averageDamageDealt: 0,
+      averageDamageTaken: 0,
+    }
+  }
+
+  const draws = pairings - wins - losses
+  return {
+    pairings,
+    wins,
+    losses,
+    draws,
+    winRate: round((wins + draws / 2) / pairings),
+    averageDamageDealt: round(damageDealt / pairings),
+    averageDamageTaken: round(damageTaken / pairings),
+  }
+}
@@ -0,0 +1,68 @@
+import { randomBytes } from 'crypto'
+
+/**
+ * Générateur pseudo-aléatoire initialisable (seed)
+ * Une même graine produit toujours la même suite de nombres, ce qui permet
+ * de rejouer ou de vérifier un tirage.
+ */
+
+export type Rng = () => number
+
+/**
+ * Generates a new random seed.
+ * @returns {string} A 16 characters hexadecimal seed
+ */
+export function randomSeed(): string {
+  return randomBytes(8).toString('hex')
+}
+
+/**
+ * Hashes a seed into a 32-bit integer (cyrb53 folded to 32 bits).
+ * @param {string} seed - The seed
+ * @returns {number} The 32-bit state of the generator
+ */
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < seed.length; i++) {
+    const code = seed.charCodeAt(i)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (h1 ^ h2) >>> 0
+}
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ * @param {string} seed - The seed of the generator
+ * @returns {Rng} A function returning numbers in [0, 1), like Math.random
+ * @example
+ * const rng = createRng('a1b2c3')
+ * rng() // always the same first number for this seed
+ */
+export function createRng(seed: string): Rng {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Picks a random integer in [0, max).
+ * @param {Rng} rng - The generator to use
+ * @param {number} max - The exclusive upper bound
+ * @returns {number} The random integer
+ */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max)
+}
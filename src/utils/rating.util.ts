@@ -0,0 +1,89 @@
+/**
+ * Classement Elo des joueurs
+ * Fonctions pures : le calcul ne dépend que des classements et du nombre de parties jouées
+ */
+
+export const DEFAULT_RATING = 1000
+
+// Les premières parties font bouger le classement plus vite pour placer le joueur
+export const PROVISIONAL_GAMES = 10
+export const PROVISIONAL_K_FACTOR = 40
+export const K_FACTOR = 24
+
+// Le classement ne descend jamais sous ce plancher
+export const RATING_FLOOR = 100
+
+export interface RatedPlayer {
+  rating: number
+  gamesPlayed: number
+}
+
+export interface RatingChange {
+  ratingBefore: number
+  ratingAfter: number
+  delta: number
+}
+
+/**
+ * Returns the probability that a player beats an opponent.
+ * @param {number} rating - The rating of the player
+ * @param {number} opponentRating - The rating of the opponent
+ * @returns {number} The expected score, between 0 and 1
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400))
+}
+
+/**
+ * Returns how much a match can move a player's rating.
+ * @param {number} gamesPlayed - The number of rated matches already played
+ * @returns {number} The K-factor of the player
+ */
+export function getKFactor(gamesPlayed: number): number {
+  return gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR
+}
+
+/**
+ * Computes the new rating of one player after a match.
+ * @param {RatedPlayer} player - The player whose rating changes
+ * @param {RatedPlayer} opponent - The opponent
+ * @param {number} score - 1 for a win, 0 for a loss
+ * @returns {RatingChange} The rating before and after the match
+ */
+export function calculateRatingChange(
+  player: RatedPlayer,
+  opponent: RatedPlayer,
+  score: 0 | 1,
+): RatingChange {
+  const expected = expectedScore(player.rating, opponent.rating)
+  const ratingAfter = Math.max(
+    RATING_FLOOR,
+    Math.round(
+      player.rating + getKFactor(player.gamesPlayed) * (score - expected),
+    ),
+  )
+  return {
+    ratingBefore: player.rating,
+    ratingAfter,
+    delta: ratingAfter - player.rating,
+  }
+}
+
+/**
+ * Computes the rating changes of both players of a finished match.
+ * @param {RatedPlayer} winner - The winning player
+ * @param {RatedPlayer} loser - The losing player
+ * @returns {object} The rating change of the winner and of the loser
+ * @example
+ * calculateMatchRatings({ rating: 1000, gamesPlayed: 20 }, { rating: 1000, gamesPlayed: 20 })
+ * // { winner: { ratingBefore: 1000, ratingAfter: 1012, delta: 12 }, loser: { ratingBefore: 1000, ratingAfter: 988, delta: -12 } }
+ */
+export function calculateMatchRatings(
+  winner: RatedPlayer,
+  loser: RatedPlayer,
+): { winner: RatingChange; loser: RatingChange } {
+  return {
+    winner: calculateRatingChange(winner, loser, 1),
+    loser: calculateRatingChange(loser, winner, 0),
+  }
+}
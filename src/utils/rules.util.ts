@@ -1,54 +1,50 @@
 import { PokemonType } from '../generated/prisma/client'
+import { getTypeChart, TypeChart } from './type-chart'
 
 /**
  * Règles du jeu Pokemon TCG
  * Contient les fonctions pures pour le calcul des dégâts et le système de types
+ * Les faiblesses, résistances et immunités proviennent de la table des types (type-chart.ts)
  */
 
 /**
  * Retourne la faiblesse principale d'un type Pokemon
  */
-export function getWeakness(defenderType: PokemonType): PokemonType | null {
-  switch (defenderType) {
-    case PokemonType.Normal:
-      return PokemonType.Fighting
-    case PokemonType.Fire:
-      return PokemonType.Water
-    case PokemonType.Water:
-      return PokemonType.Electric
-    case PokemonType.Electric:
-      return PokemonType.Ground
-    case PokemonType.Grass:
-      return PokemonType.Fire
-    case PokemonType.Ice:
-      return PokemonType.Fire
-    case PokemonType.Fighting:
-      return PokemonType.Psychic
-    case PokemonType.Poison:
-      return PokemonType.Psychic
-    case PokemonType.Ground:
-      return PokemonType.Water
-    case PokemonType.Flying:
-      return PokemonType.Electric
-    case PokemonType.Psychic:
-      return PokemonType.Dark
-    case PokemonType.Bug:
-      return PokemonType.Fire
-    case PokemonType.Rock:
-      return PokemonType.Water
-    case PokemonType.Ghost:
-      return PokemonType.Dark
-    case PokemonType.Dragon:
-      return PokemonType.Ice
-    case PokemonType.Dark:
-      return PokemonType.Fighting
-    case PokemonType.Steel:
-      return PokemonType.Fire
-    case PokemonType.Fairy:
-      return PokemonType.Poison
-    default:
-      return null
-  }
+export function getWeakness(
+  defenderType: PokemonType,
+  chart: TypeChart = getTypeChart(),
+): PokemonType | null {
+  return chart.types[defenderType]?.weaknesses[0] ?? null
+}
+
+/**
+ * Retourne toutes les faiblesses d'un type Pokemon
+ */
+export function getWeaknesses(
+  defenderType: PokemonType,
+  chart: TypeChart = getTypeChart(),
+): PokemonType[] {
+  return chart.types[defenderType]?.weaknesses ?? []
+}
+
+/**
+ * Retourne les types auxquels un type Pokemon résiste
+ */
+export function getResistances(
+  defenderType: PokemonType,
+  chart: TypeChart = getTypeChart(),
+): PokemonType[] {
+  return chart.types[defenderType]?.resistances ?? []
+}
+
+/**
+ * Retourne les types contre lesquels un type Pokemon est immunisé
+ */
+export function getImmunities(
+  defenderType: PokemonType,
+  chart: TypeChart = getTypeChart(),
+): PokemonType[] {
+  return chart.types[defenderType]?.immunities ?? []
 }
 
 /**
@@ -57,28 +53,56 @@ export function getWeakness(defenderType: PokemonType): PokemonType | null {
 export function getDamageMultiplier(
   attackerType: PokemonType,
   defenderType: PokemonType,
+  chart: TypeChart = getTypeChart(),
 ): number {
-  const weakness = getWeakness(defenderType)
+  // L'immunité l'emporte sur tout le reste
+  if (getImmunities(defenderType, chart).includes(attackerType)) {
+    return chart.multipliers.immunity // Aucun effet (x0 par défaut)
+  }
+
+  if (getWeaknesses(defenderType, chart).includes(attackerType)) {
+    return chart.multipliers.weakness // Super efficace (x2 par défaut)
+  }
 
-  // Si le type de l'attaquant correspond à la faiblesse du défenseur
-  if (weakness === attackerType) {
-    return 2.0 // Super efficace (x2 dégâts)
+  if (getResistances(defenderType, chart).includes(attackerType)) {
+    return chart.multipliers.resistance // Peu efficace (x0.5 par défaut)
   }
 
   return 1.0 // Dégâts normaux
 }
 
+/**
+ * Échelle de la défense : un défenseur avec DEFENSE_SCALE de défense subit moitié moins de dégâts
+ */
+export const DEFENSE_SCALE = 100
+
 /**
  * Calcule les dégâts infligés lors d'une attaque
+ *
+ * Formule :
+ *   dégâts = floor(attaque × multiplicateur × DEFENSE_SCALE / (DEFENSE_SCALE + défense))
+ *
+ * La défense réduit les dégâts de façon dégressive, sans jamais les annuler :
+ * 0 de défense → 100 % des dégâts, 50 → 67 %, 100 → 50 %, 180 → 36 %.
+ * Le minimum de dégâts ne s'applique aux immunités que si la table des types le demande
  */
 export function calculateDamage(
   attackerAttack: number,
   attackerType: PokemonType,
   defenderType: PokemonType,
+  defenderDefense = 0,
+  chart: TypeChart = getTypeChart(),
 ): number {
-  const multiplier = getDamageMultiplier(attackerType, defenderType)
+  const multiplier = getDamageMultiplier(attackerType, defenderType, chart)
+  const defenseFactor =
+    DEFENSE_SCALE / (DEFENSE_SCALE + Math.max(0, defenderDefense))
+
+  const damage = Math.floor(attackerAttack * multiplier * defenseFactor)
 
-  const damage = Math.floor(attackerAttack * multiplier)
+  const isImmune = getImmunities(defenderType, chart).includes(attackerType)
+  if (isImmune && !chart.minimumDamageOnImmunity) {
+    return damage
+  }
 
-  return Math.max(1, damage)
+  return Math.max(chart.minimumDamage, damage)
 }
@@ -0,0 +1,224 @@
+import { FieldError } from '../errors/app.errors'
+
+/**
+ * Validation d'une valeur par un schéma JSON Schema (sous-ensemble utilisé par OpenAPI 3.0)
+ * Les schémas des corps de requête sont ceux du document OpenAPI : la doc et la validation
+ * ne peuvent pas diverger.
+ */
+
+export interface JsonSchema {
+  $ref?: string
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean'
+  nullable?: boolean
+  enum?: unknown[]
+  // Objets
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  minProperties?: number
+  // Tableaux
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  // Chaînes
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  format?: string
+  // Nombres
+  minimum?: number
+  maximum?: number
+  // Documentation uniquement, ignorée par la validation
+  description?: string
+  example?: unknown
+}
+
+// Résout une référence "#/components/schemas/..." du document
+export type SchemaResolver = (ref: string) => JsonSchema
+
+const TYPE_NAMES: Record<NonNullable<JsonSchema['type']>, string> = {
+  object: 'an object',
+  array: 'an array',
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'a boolean',
+}
+
+// Volontairement simple : une adresse, un @, un domaine avec un point
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Checks that a value has the JSON type expected by a schema.
+ * @param {unknown} value - The value to check
+ * @param {JsonSchema['type']} type - The expected type
+ * @returns {boolean} True if the value has this type
+ */
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>) {
+  switch (type) {
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      )
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    default:
+      return typeof value === type
+  }
+}
+
+/**
+ * Joins a property or an index to the path of its parent.
+ * @param {string} path - The path of the parent, empty for the root value
+ * @param {string | number} key - The property name or the array index
+ * @returns {string} The path of the child (ex. "cards[3]", "user.email")
+ */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * Validates a value against a JSON schema.
+ * Every problem is reported, not only the first one; each error names the faulty field
+ * and carries the schema keyword that failed as code.
+ * @param {unknown} value - The value to validate (ex. a request body)
+ * @param {JsonSchema} schema - The schema describing the value
+ * @param {SchemaResolver} resolve - Resolves the `$ref` found in the schema
+ * @param {string} [path] - The path of the value, used in error messages ("body" for the root)
+ * @returns {FieldError[]} The list of errors, empty if the value is valid
+ * @example
+ * validateSchema({ email: 'red' }, { type: 'object', required: ['password'], properties: { email: { type: 'string', format: 'email' } } }, resolve)
+ * // [{ field: 'password', message: 'password is required', code: 'required' },
+ * //  { field: 'email', message: 'email must be a valid email address', code: 'format' }]
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  resolve: SchemaResolver,
+  path = '',
+): FieldError[] {
+  if (schema.$ref) {
+    return validateSchema(value, resolve(schema.$ref), resolve, path)
+  }
+
+  const field = path || 'body'
+  const fail = (code: string, message: string): FieldError[] => [
+    { field, message: `${field} ${message}`, code },
+  ]
+
+  if (value === null && schema.nullable) return []
+  if (schema.type && !hasType(value, schema.type)) {
+    return fail('type', `must be ${TYPE_NAMES[schema.type]}`)
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return fail('enum', `must be one of: ${schema.enum.join(', ')}`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return fail(
+        'minLength',
+        `must be at least ${schema.minLength} character(s) long`,
+      )
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return fail(
+        'maxLength',
+        `must be at most ${schema.maxLength} character(s) long`,
+      )
+    }
+    if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      return fail('format', 'must be a valid email address')
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      return fail('pattern', `must match the pattern ${schema.pattern}`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return fail(
+        'minimum',
+        `must be greater than or equal to ${schema.minimum}`,
+      )
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return fail('maximum', `must be less than or equal to ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return fail(
+        'minItems',
+        `must contain at least ${schema.minItems} item(s)`,
+      )
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return fail('maxItems', `must contain at most ${schema.maxItems} item(s)`)
+    }
+    const items = schema.items
+    if (items) {
+      return value.flatMap((item, index) =>
+        validateSchema(item, items, resolve, childPath(path, index)),
+      )
+    }
+    return []
+  }
+
+  if (hasType(value, 'object')) {
+    const object = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+    const errors: FieldError[] = []
+
+    if (
+      schema.minProperties !== undefined &&
+      Object.keys(object).length < schema.minProperties
+    ) {
+      return fail(
+        'minProperties',
+        `must contain at least ${schema.minProperties} field(s)`,
+      )
+    }
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        const required = childPath(path, name)
+        errors.push({
+          field: required,
+          message: `${required} is required`,
+          code: 'required',
+        })
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const property = properties[name]
+      if (property) {
+        if (propertyValue !== undefined) {
+          errors.push(
+            ...validateSchema(
+              propertyValue,
+              property,
+              resolve,
+              childPath(path, name),
+            ),
+          )
+        }
+      } else if (schema.additionalProperties === false) {
+        const unknown = childPath(path, name)
+        errors.push({
+          field: unknown,
+          message: `${unknown} is not allowed`,
+          code: 'additionalProperties',
+        })
+      }
+    }
+    return errors
+  }
+
+  return []
+}
@@ -0,0 +1,111 @@
+import { readFileSync } from 'fs'
+import { PokemonType } from '../generated/prisma/client'
+import { env } from '../env'
+import defaultTypeChart from './type-chart.json'
+
+/**
+ * Table des types Pokemon
+ * Décrit, pour chaque type défenseur, ses faiblesses, résistances et immunités.
+ * La table par défaut (type-chart.json) peut être remplacée par un autre fichier JSON
+ * au même format via la variable d'environnement TYPE_CHART_PATH.
+ */
+
+export interface TypeMatchups {
+  weaknesses: PokemonType[]
+  resistances: PokemonType[]
+  immunities: PokemonType[]
+}
+
+export interface TypeChart {
+  multipliers: {
+    weakness: number
+    resistance: number
+    immunity: number
+  }
+  // Dégâts minimum d'une attaque
+  minimumDamage: number
+  // Applique aussi le minimum quand le défenseur est immunisé
+  minimumDamageOnImmunity: boolean
+  types: Record<PokemonType, TypeMatchups>
+}
+
+/**
+ * Validates a raw type chart and returns it typed.
+ * Every PokemonType must be described, and only known types can be referenced.
+ * @param {unknown} raw - The parsed JSON content
+ * @returns {TypeChart} The validated type chart
+ * @throws {Error} If the chart is malformed
+ */
+export function parseTypeChart(raw: unknown): TypeChart {
+  const chart = raw as TypeChart
+  const knownTypes = Object.values(PokemonType) as string[]
+
+  if (!chart || typeof chart !== 'object' || !chart.types) {
+    throw new Error('Invalid type chart: "types" is required')
+  }
+  for (const key of ['weakness', 'resistance', 'immunity'] as const) {
+    if (typeof chart.multipliers?.[key] !== 'number') {
+      throw new Error(
+        `Invalid type chart: "multipliers.${key}" must be a number`,
+      )
+    }
+  }
+  if (typeof chart.minimumDamage !== 'number') {
+    throw new Error('Invalid type chart: "minimumDamage" must be a number')
+  }
+  if (typeof chart.minimumDamageOnImmunity !== 'boolean') {
+    throw new Error(
+      'Invalid type chart: "minimumDamageOnImmunity" must be a boolean',
+    )
+  }
+
+  for (const type of knownTypes) {
+    const matchups = chart.types[type as PokemonType]
+    if (!matchups) {
+      throw new Error(`Invalid type chart: type "${type}" is missing`)
+    }
+    for (const key of ['weaknesses', 'resistances', 'immunities'] as const) {
+      if (!Array.isArray(matchups[key])) {
+        throw new Error(`Invalid type chart: "${type}.${key}" must be an array`)
+      }
+      const unknown = matchups[key].find((value) => !knownTypes.includes(value))
+      if (unknown) {
+        throw new Error(
+          `Invalid type chart: unknown type "${unknown}" in "${type}.${key}"`,
+        )
+      }
+    }
+  }
+
+  return chart
+}
+
+/**
+ * Loads a type chart from a JSON file.
+ * @param {string} path - Path of the JSON file
+ * @returns {TypeChart} The validated type chart
+ * @throws {Error} If the file cannot be read or the chart is malformed
+ */
+export function loadTypeChart(path: string): TypeChart {
+  return parseTypeChart(JSON.parse(readFileSync(path, 'utf-8')))
+}
+
+let activeTypeChart: TypeChart = env.TYPE_CHART_PATH
+  ? loadTypeChart(env.TYPE_CHART_PATH)
+  : parseTypeChart(defaultTypeChart)
+
+/**
+ * Returns the type chart used by the game rules.
+ * @returns {TypeChart} The active type chart
+ */
+export function getTypeChart(): TypeChart {
+  return activeTypeChart
+}
+
+/**
+ * Replaces the type chart used by the game rules.
+ * @param {TypeChart} chart - The new type chart
+ */
+export function setTypeChart(chart: TypeChart): void {
+  activeTypeChart = parseTypeChart(chart)
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { Rarity } from '../src/generated/prisma/client'
+import {
+  BOOSTER_SIZE,
+  drawBooster,
+  getDefaultRarity,
+} from '../src/utils/booster.util'
+import { createRng } from '../src/utils/random.util'
+
+const cards = [
+  { id: 1, rarity: Rarity.COMMON },
+  { id: 2, rarity: Rarity.COMMON },
+  { id: 3, rarity: Rarity.UNCOMMON },
+  { id: 4, rarity: Rarity.RARE },
+  { id: 5, rarity: Rarity.LEGENDARY },
+]
+
+describe('booster.util', () => {
+  it('draws the same booster for the same seed', () => {
+    const first = drawBooster(cards, createRng('seed'))
+    const second = drawBooster(cards, createRng('seed'))
+
+    expect(first).toHaveLength(BOOSTER_SIZE)
+    expect(second).toEqual(first)
+  })
+
+  it('only draws rarities that have cards', () => {
+    const commons = cards.filter((card) => card.rarity === Rarity.COMMON)
+    const booster = drawBooster(commons, createRng('commons'), 20)
+
+    expect(booster).toHaveLength(20)
+    expect(booster.every((card) => card.rarity === Rarity.COMMON)).toBe(true)
+    expect(() => drawBooster([], createRng('empty'))).toThrow(
+      'No card available for boosters',
+    )
+  })
+
+  it('ranks cards by their stats', () => {
+    expect(
+      getDefaultRarity({
+        hp: 106,
+        attack: 110,
+        defense: 90,
+        pokedexNumber: 150,
+      }),
+    ).toBe(Rarity.LEGENDARY)
+    expect(
+      getDefaultRarity({ hp: 100, attack: 100, defense: 80, pokedexNumber: 9 }),
+    ).toBe(Rarity.RARE)
+    expect(
+      getDefaultRarity({ hp: 80, attack: 80, defense: 70, pokedexNumber: 20 }),
+    ).toBe(Rarity.UNCOMMON)
+    expect(
+      getDefaultRarity({ hp: 35, attack: 55, defense: 40, pokedexNumber: 25 }),
+    ).toBe(Rarity.COMMON)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { Card, PokemonType } from '../src/generated/prisma/client'
+import {
+  BOT_USER_ID,
+  chooseBotAction,
+  createBotPlayer,
+  getLegalActions,
+} from '../src/sockets/bot.player'
+import { Game } from '../src/sockets/game.engine'
+import { makeCard, makePlayer } from './game.fixtures'
+
+/**
+ * Starts a game where the human has played a Grass card and the bot is to play.
+ */
+const startBotTurn = (botCards: Card[]) => {
+  const game = new Game(
+    makePlayer(1, [makeCard(100, { type: PokemonType.Grass })]),
+    createBotPlayer('room', 'hard', botCards),
+  )
+  game.drawCards(1)
+  game.playCard(1, 0)
+  game.endTurn(1)
+  return game
+}
+
+describe('bot.player', () => {
+  it('only ends its turn when nothing else can be played', () => {
+    const game = startBotTurn([makeCard(1)])
+
+    expect(game.currentPlayer.userId).toBe(BOT_USER_ID)
+    expect(getLegalActions(game)).toEqual([{ type: 'drawCards' }])
+
+    game.drawCards(BOT_USER_ID)
+    game.playCard(BOT_USER_ID, 0)
+    expect(getLegalActions(game)).toEqual([{ type: 'attack' }])
+  })
+
+  it('plays the card with the type advantage when greedy', () => {
+    const game = startBotTurn([
+      makeCard(1, { type: PokemonType.Water, attack: 30 }),
+      makeCard(2, { type: PokemonType.Fire, attack: 30 }),
+      makeCard(3, { type: PokemonType.Grass, attack: 30 }),
+    ])
+
+    expect(chooseBotAction(game, 'hard')).toEqual({ type: 'drawCards' })
+    game.drawCards(BOT_USER_ID)
+
+    const action = chooseBotAction(game, 'hard')
+    expect(action.type).toBe('playCard')
+    const hand = game.currentPlayer.hand
+    expect(hand[(action as { cardIndex: number }).cardIndex].type).toBe(
+      PokemonType.Fire,
+    )
+  })
+
+  it('picks a random legal action when easy', () => {
+    const game = startBotTurn([makeCard(1), makeCard(2)])
+    game.drawCards(BOT_USER_ID)
+
+    expect(chooseBotAction(game, 'easy', () => 0)).toEqual({
+      type: 'playCard',
+      cardIndex: 0,
+    })
+    expect(chooseBotAction(game, 'easy', () => 0.99)).toEqual({
+      type: 'playCard',
+      cardIndex: 1,
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  parseCardQuery,
+  parsePokemonType,
+} from '../src/Cards/cards.query'
+import { PokemonType } from '../src/generated/prisma/client'
+
+const fields = (raw: Parameters<typeof parseCardQuery>[0]) =>
+  parseCardQuery(raw).errors.map((error) => error.field)
+
+describe('parseCardQuery', () => {
+  it('sorts by pokedex number without pagination by default', () => {
+    expect(parseCardQuery({})).toEqual({
+      errors: [],
+      query: {
+        where: {},
+        orderBy: [{ pokedexNumber: 'asc' }, { id: 'asc' }],
+        pagination: null,
+      },
+    })
+  })
+
+  it('builds the filters from the query parameters', () => {
+    const { query } = parseCardQuery({
+      type: ['fire,Water', 'GRASS'],
+      name: '  char ',
+      hpMin: '50',
+      hpMax: '100',
+      attackMax: '80',
+    })
+
+    expect(query?.where).toEqual({
+      type: {
+        in: [PokemonType.Fire, PokemonType.Water, PokemonType.Grass],
+      },
+      name: { contains: 'char', mode: 'insensitive' },
+      hp: { gte: 50, lte: 100 },
+      attack: { gte: undefined, lte: 80 },
+    })
+  })
+
+  it('reports every invalid parameter at once', () => {
+    expect(
+      fields({
+        type: 'Fire,Plasma',
+        hpMin: 'abc',
+        attackMin: '90',
+        attackMax: '10',
+        sort: 'name',
+        order: 'up',
+      }),
+    ).toEqual(['type', 'hpMin', 'attackMin', 'sort', 'order'])
+    expect(fields({ type: ' , ' })).toEqual(['type'])
+    expect(fields({ hpMin: '' })).toEqual(['hpMin'])
+  })
+
+  it('sorts by any sortable field, with the id as tie-breaker', () => {
+    expect(
+      parseCardQuery({ sort: 'attack', order: 'DESC' }).query?.orderBy,
+    ).toEqual([{ attack: 'desc' }, { id: 'asc' }])
+    expect(parseCardQuery({ sort: 'id' }).query?.orderBy).toEqual([
+      { id: 'asc' },
+    ])
+    // Un paramètre répété garde sa dernière valeur
+    expect(parseCardQuery({ sort: ['hp', 'defense'] }).query?.orderBy).toEqual([
+      { defense: 'asc' },
+      { id: 'asc' },
+    ])
+  })
+
+  it('paginates by page, with the default limit', () => {
+    expect(parseCardQuery({ page: '2' }).query?.pagination).toEqual({
+      mode: 'page',
+      page: 2,
+      limit: DEFAULT_LIMIT,
+    })
+    expect(parseCardQuery({ limit: '5' }).query?.pagination).toEqual({
+      mode: 'page',
+      page: 1,
+      limit: 5,
+    })
+  })
+
+  it('paginates by cursor, an empty cursor asking for the first page', () => {
+    expect(
+      parseCardQuery({ cursor: '42', limit: '10' }).query?.pagination,
+    ).toEqual({ mode: 'cursor', cursor: 42, limit: 10 })
+    expect(parseCardQuery({ cursor: '' }).query?.pagination).toEqual({
+      mode: 'cursor',
+      cursor: null,
+      limit: DEFAULT_LIMIT,
+    })
+  })
+
+  it('rejects a cursor with a page and limits out of bounds', () => {
+    expect(parseCardQuery({ page: '1', cursor: '5' }).errors).toEqual([
+      { field: 'cursor', message: 'page and cursor cannot be used together' },
+    ])
+    expect(fields({ limit: '0' })).toEqual(['limit'])
+    expect(fields({ limit: String(MAX_LIMIT + 1) })).toEqual(['limit'])
+    expect(fields({ page: '0', cursor: '1.5' })).toEqual(['page', 'cursor'])
+  })
+})
+
+describe('parsePokemonType', () => {
+  it('matches a type whatever its case', () => {
+    expect(parsePokemonType('eLeCtRiC')).toBe(PokemonType.Electric)
+    expect(parsePokemonType('Plasma')).toBeUndefined()
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { parseCardInput } from '../src/Cards/cards.validation'
+import { PokemonType, Rarity } from '../src/generated/prisma/client'
+
+const pikachu = {
+  name: ' Pikachu ',
+  hp: 35,
+  attack: 55,
+  defense: 40,
+  type: 'electric',
+  pokedexNumber: 25,
+}
+
+const fields = (body: unknown, partial: boolean) =>
+  parseCardInput(body, partial).errors.map((error) => error.field)
+
+describe('parseCardInput', () => {
+  it('accepts a new card and rates it from its stats', () => {
+    expect(parseCardInput(pikachu, false)).toEqual({
+      errors: [],
+      data: {
+        name: 'Pikachu',
+        hp: 35,
+        attack: 55,
+        defense: 40,
+        type: PokemonType.Electric,
+        pokedexNumber: 25,
+        rarity: Rarity.COMMON,
+      },
+    })
+  })
+
+  it('defaults the defense to 0 and keeps an explicit rarity', () => {
+    const withoutDefense = { ...pikachu, defense: undefined }
+
+    expect(parseCardInput(withoutDefense, false).data).not.toHaveProperty(
+      'defense',
+    )
+    expect(
+      parseCardInput({ ...withoutDefense, pokedexNumber: 150 }, false).data
+        ?.rarity,
+    ).toBe(Rarity.LEGENDARY)
+    expect(
+      parseCardInput({ ...pikachu, rarity: 'RARE', imgUrl: null }, false).data,
+    ).toMatchObject({ rarity: Rarity.RARE, imgUrl: null })
+  })
+
+  it('requires every field but the defense on creation', () => {
+    expect(fields({}, false)).toEqual([
+      'name',
+      'hp',
+      'attack',
+      'pokedexNumber',
+      'type',
+    ])
+    expect(fields(null, false)).toHaveLength(5)
+  })
+
+  it('accepts a partial update without rating the card', () => {
+    expect(parseCardInput({ attack: 0, imgUrl: '/pikachu.png' }, true)).toEqual(
+      { errors: [], data: { attack: 0, imgUrl: '/pikachu.png' } },
+    )
+  })
+
+  it('rejects an empty update', () => {
+    expect(parseCardInput({}, true).errors).toEqual([
+      { field: 'body', message: 'At least one field must be provided' },
+    ])
+  })
+
+  it('reports every invalid field, including unknown types and rarities', () => {
+    expect(
+      fields(
+        {
+          name: '  ',
+          hp: 0,
+          attack: 1.5,
+          defense: -1,
+          pokedexNumber: '25',
+          type: 'Plasma',
+          rarity: 'MYTHIC',
+          imgUrl: 42,
+        },
+        true,
+      ),
+    ).toEqual([
+      'name',
+      'hp',
+      'attack',
+      'defense',
+      'pokedexNumber',
+      'type',
+      'rarity',
+      'imgUrl',
+    ])
+    expect(fields({ ...pikachu, type: 12 }, false)).toEqual(['type'])
+  })
+})
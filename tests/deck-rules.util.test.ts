@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { PokemonType } from '../src/generated/prisma/client'
+import {
+  DECK_FORMAT_RULES,
+  DeckRuleCard,
+  getDeckFormat,
+  validateDeckCards,
+} from '../src/utils/deck-rules.util'
+
+const makeCard = (
+  id: number,
+  overrides: Partial<DeckRuleCard> = {},
+): DeckRuleCard => ({
+  id,
+  name: `Card ${id}`,
+  hp: 40,
+  type: PokemonType.Fire,
+  pokedexNumber: id,
+  ...overrides,
+})
+
+const tenCards = () => Array.from({ length: 10 }, (_, i) => makeCard(i + 1))
+
+describe('deck-rules.util', () => {
+  it('accepts a standard deck of 10 different cards', () => {
+    expect(validateDeckCards(tenCards(), DECK_FORMAT_RULES.standard)).toEqual(
+      [],
+    )
+  })
+
+  it('reports every broken rule at once', () => {
+    const cards = [...tenCards().slice(0, 8), makeCard(1)]
+    const rules = validateDeckCards(cards, DECK_FORMAT_RULES.standard).map(
+      (violation) => violation.rule,
+    )
+    expect(rules).toEqual(['deckSize', 'maxCopies'])
+  })
+
+  it('counts cards that could not be loaded in the deck size', () => {
+    const violations = validateDeckCards(
+      tenCards().slice(0, 9),
+      DECK_FORMAT_RULES.standard,
+      10,
+    )
+    expect(violations).toEqual([])
+  })
+
+  it('applies type, HP and banned card limits', () => {
+    const cards = [
+      ...tenCards().slice(0, 8),
+      makeCard(150, { hp: 200, type: PokemonType.Psychic }),
+      makeCard(149, { type: PokemonType.Dragon }),
+    ]
+    expect(
+      validateDeckCards(cards, DECK_FORMAT_RULES['low-hp-cup']).map(
+        (violation) => [violation.rule, violation.cardIds],
+      ),
+    ).toEqual([
+      ['maxTotalHp', undefined],
+      ['bannedTypes', [149]],
+      ['bannedCards', [150]],
+    ])
+    expect(
+      validateDeckCards(cards, DECK_FORMAT_RULES['mono-type'])[0].rule,
+    ).toBe('maxDistinctTypes')
+    expect(
+      validateDeckCards(cards, DECK_FORMAT_RULES['starter-cup'])[0].cardIds,
+    ).toEqual([150, 149])
+  })
+
+  it('only knows the declared formats', () => {
+    expect(getDeckFormat('standard')?.deckSize).toBe(10)
+    expect(getDeckFormat('toString')).toBeUndefined()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { PokemonType } from '../src/generated/prisma/client'
+import {
+  computeDeckStats,
+  estimateMatchup,
+  StatCard,
+} from '../src/utils/deck-stats.util'
+
+const makeCard = (
+  type: PokemonType,
+  hp: number,
+  attack: number,
+  defense = 0,
+): StatCard => ({ type, hp, attack, defense })
+
+describe('Deck stats', () => {
+  it('summarizes the types, HP and attack of a deck', () => {
+    const stats = computeDeckStats([
+      makeCard(PokemonType.Fire, 40, 30),
+      makeCard(PokemonType.Water, 60, 10),
+      makeCard(PokemonType.Water, 90, 20),
+      makeCard(PokemonType.Water, 50, 40),
+    ])
+
+    expect(stats.cardCount).toBe(4)
+    expect(stats.typeDistribution).toEqual({ Fire: 1, Water: 3 })
+    expect(stats.hp).toEqual({ total: 240, average: 60, median: 55 })
+    expect(stats.attack).toEqual({ total: 100, average: 25, median: 25 })
+  })
+
+  it('ranks the attacker types hitting the most cards super-effectively', () => {
+    const { superEffectiveTypes } = computeDeckStats([
+      makeCard(PokemonType.Fire, 50, 20),
+      makeCard(PokemonType.Water, 50, 20),
+      makeCard(PokemonType.Water, 50, 20),
+    ])
+
+    expect(superEffectiveTypes).toEqual([
+      { type: PokemonType.Electric, cardCount: 2 },
+      { type: PokemonType.Water, cardCount: 1 },
+    ])
+  })
+
+  it('estimates a matchup from every card pairing', () => {
+    // L'Eau est super efficace contre le Feu
+    const water = [makeCard(PokemonType.Water, 50, 30)]
+    const fire = [
+      makeCard(PokemonType.Fire, 50, 30),
+      makeCard(PokemonType.Fire, 50, 30),
+    ]
+
+    const matchup = estimateMatchup(water, fire)
+
+    expect(matchup).toMatchObject({ pairings: 2, wins: 2, losses: 0 })
+    expect(matchup.winRate).toBe(1)
+    expect(matchup.averageDamageDealt).toBe(60)
+    expect(estimateMatchup(fire, water).winRate).toBe(0)
+  })
+})
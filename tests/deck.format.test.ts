@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DeckImportError,
+  formatDeckAsJson,
+  formatDeckAsText,
+  isDeckFormat,
+  parseDeckList,
+} from '../src/deck/deck.format'
+import { MAX_DECK_SIZE } from '../src/utils/deck-rules.util'
+
+const card = (name: string, pokedexNumber: number) => ({
+  card: { name, pokedexNumber },
+})
+
+const deck = {
+  name: 'My Deck',
+  format: 'standard',
+  deckCards: [
+    card('Pikachu', 25),
+    card('Bulbasaur', 1),
+    card('Pikachu', 25),
+    card('Mewtwo', 150),
+  ],
+}
+
+describe('deck.format', () => {
+  it('exports a deck as text, grouping the copies of a card', () => {
+    expect(formatDeckAsText(deck)).toBe(
+      '# My Deck\n2 Pikachu #025\n1 Bulbasaur #001\n1 Mewtwo #150\n',
+    )
+  })
+
+  it('exports a deck as JSON', () => {
+    expect(formatDeckAsJson(deck)).toEqual({
+      name: 'My Deck',
+      format: 'standard',
+      cards: [
+        { quantity: 2, name: 'Pikachu', pokedexNumber: 25 },
+        { quantity: 1, name: 'Bulbasaur', pokedexNumber: 1 },
+        { quantity: 1, name: 'Mewtwo', pokedexNumber: 150 },
+      ],
+    })
+  })
+
+  it('imports back what it exports, in both formats', () => {
+    const expected = [
+      { quantity: 2, name: 'Pikachu', pokedexNumber: 25 },
+      { quantity: 1, name: 'Bulbasaur', pokedexNumber: 1 },
+      { quantity: 1, name: 'Mewtwo', pokedexNumber: 150 },
+    ]
+
+    const text = parseDeckList('text', formatDeckAsText(deck))
+    expect(text.name).toBe('My Deck')
+    expect(text.errors).toEqual([])
+    expect(text.entries).toMatchObject(expected)
+
+    const json = parseDeckList('json', JSON.stringify(formatDeckAsJson(deck)))
+    expect(json).toMatchObject({
+      name: 'My Deck',
+      deckFormat: 'standard',
+      entries: expected,
+      errors: [],
+    })
+  })
+
+  it('tells a "# Name" title line from a "#025" pokedex number', () => {
+    const list = parseDeckList(
+      'text',
+      '# First title\r\n\n#025\n# Second title\n  Charmander  ',
+    )
+
+    expect(list.name).toBe('First title')
+    expect(list.entries).toEqual([
+      { line: 3, content: '#025', quantity: 1, pokedexNumber: 25 },
+      { line: 5, content: 'Charmander', quantity: 1, name: 'Charmander' },
+    ])
+  })
+
+  it('reads the quantity with or without the "x" suffix', () => {
+    const list = parseDeckList('text', '2x Pikachu #025\n3X Eevee\n4 #133')
+
+    expect(
+      list.entries.map(({ quantity, name, pokedexNumber }) => ({
+        quantity,
+        name,
+        pokedexNumber,
+      })),
+    ).toEqual([
+      { quantity: 2, name: 'Pikachu', pokedexNumber: 25 },
+      { quantity: 3, name: 'Eevee', pokedexNumber: undefined },
+      { quantity: 4, name: undefined, pokedexNumber: 133 },
+    ])
+  })
+
+  it('reports every text line with a quantity out of range or no card', () => {
+    const list = parseDeckList(
+      'text',
+      `0 Pikachu\n${MAX_DECK_SIZE + 1}x Eevee\n1 Mew\n3x`,
+    )
+
+    expect(list.entries).toHaveLength(1)
+    expect(list.errors).toEqual([
+      {
+        line: 1,
+        content: '0 Pikachu',
+        message: `Quantity must be between 1 and ${MAX_DECK_SIZE}`,
+      },
+      {
+        line: 2,
+        content: `${MAX_DECK_SIZE + 1}x Eevee`,
+        message: `Quantity must be between 1 and ${MAX_DECK_SIZE}`,
+      },
+      {
+        line: 4,
+        content: '3x',
+        message: 'A card name or pokedex number is required',
+      },
+    ])
+  })
+
+  it('rejects a text list that is not a string', () => {
+    expect(parseDeckList('text', { cards: [] }).errors).toEqual([
+      { line: 0, content: '', message: 'Content must be a string' },
+    ])
+  })
+
+  it('rejects invalid JSON and a JSON list without cards', () => {
+    expect(parseDeckList('json', '{"cards": [').errors).toEqual([
+      { line: 0, content: '', message: 'Content is not valid JSON' },
+    ])
+    for (const content of ['null', { name: 'My Deck' }]) {
+      expect(parseDeckList('json', content).errors).toEqual([
+        { line: 0, content: '', message: '"cards" must be an array of cards' },
+      ])
+    }
+  })
+
+  it('reports every faulty JSON entry', () => {
+    const list = parseDeckList('json', {
+      name: 42,
+      format: null,
+      cards: [
+        { quantity: 1.5, name: 'Pikachu' },
+        { quantity: MAX_DECK_SIZE + 1, pokedexNumber: 25 },
+        { name: 'Pikachu', pokedexNumber: 25.5 },
+        { pokedexNumber: '25' },
+        null,
+        { name: '  ', pokedexNumber: 133 },
+        { quantity: 2, name: ' Eevee ' },
+      ],
+    })
+
+    expect(list.name).toBeUndefined()
+    expect(list.deckFormat).toBeUndefined()
+    expect(list.errors.map(({ line, message }) => [line, message])).toEqual([
+      [1, `Quantity must be an integer between 1 and ${MAX_DECK_SIZE}`],
+      [2, `Quantity must be an integer between 1 and ${MAX_DECK_SIZE}`],
+      [3, 'pokedexNumber must be an integer'],
+      [4, 'pokedexNumber must be an integer'],
+      [5, 'A card name or pokedex number is required'],
+    ])
+    expect(list.entries).toEqual([
+      {
+        line: 6,
+        content: '{"name":"  ","pokedexNumber":133}',
+        quantity: 1,
+        name: undefined,
+        pokedexNumber: 133,
+      },
+      {
+        line: 7,
+        content: '{"quantity":2,"name":" Eevee "}',
+        quantity: 2,
+        name: 'Eevee',
+        pokedexNumber: undefined,
+      },
+    ])
+  })
+
+  it('reports an undefined JSON entry with an empty content', () => {
+    expect(parseDeckList('json', { cards: [undefined] }).errors).toEqual([
+      {
+        line: 1,
+        content: '',
+        message: 'A card name or pokedex number is required',
+      },
+    ])
+  })
+
+  it('recognises the supported formats', () => {
+    expect(isDeckFormat('text')).toBe(true)
+    expect(isDeckFormat('json')).toBe(true)
+    expect(isDeckFormat('csv')).toBe(false)
+  })
+
+  it('turns the faulty lines into a validation error', () => {
+    const details = [{ line: 2, content: '0 Mew', message: 'Bad quantity' }]
+    const error = new DeckImportError('Invalid deck list', details)
+
+    expect(error).toMatchObject({
+      status: 400,
+      code: 'DECK_LIST_INVALID',
+      details,
+      errors: [{ field: 'content', message: 'Line 2: Bad quantity' }],
+      extensions: { details },
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Request, Response } from 'express'
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  ValidationError,
+} from '../src/errors/app.errors'
+import { errorHandler, notFoundHandler } from '../src/errors/error.handler'
+
+const makeRequest = () =>
+  ({ method: 'GET', originalUrl: '/api/decks/42' }) as Request
+
+const makeResponse = () => {
+  const res = { headersSent: false } as Response & { body?: unknown }
+  res.status = vi.fn(() => res)
+  res.type = vi.fn(() => res)
+  res.json = vi.fn((body) => {
+    res.body = body
+    return res
+  })
+  return res
+}
+
+describe('errorHandler', () => {
+  it('answers an application error with its problem details', () => {
+    const res = makeResponse()
+
+    errorHandler(
+      new NotFoundError('Deck not found', { code: 'DECK_NOT_FOUND' }),
+      makeRequest(),
+      res,
+      vi.fn(),
+    )
+
+    expect(res.status).toHaveBeenCalledWith(404)
+    expect(res.type).toHaveBeenCalledWith('application/problem+json')
+    expect(res.body).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Deck not found',
+      instance: '/api/decks/42',
+      code: 'DECK_NOT_FOUND',
+    })
+  })
+
+  it.each([
+    [new UnauthorizedError('No token'), 401, 'UNAUTHORIZED'],
+    [new ForbiddenError('Not yours'), 403, 'FORBIDDEN'],
+    [new ConflictError('Already done'), 409, 'CONFLICT'],
+    [new TooManyRequestsError('Slow down'), 429, 'TOO_MANY_REQUESTS'],
+  ])('uses the status and default code of %s', (error, status, code) => {
+    const res = makeResponse()
+
+    errorHandler(error, makeRequest(), res, vi.fn())
+
+    expect(res.status).toHaveBeenCalledWith(status)
+    expect(res.body).toMatchObject({ status, code })
+  })
+
+  it('tells when to retry a rejected request', () => {
+    const res = makeResponse()
+    res.set = vi.fn(() => res)
+
+    errorHandler(
+      new TooManyRequestsError('Slow down', { retryAfter: 30 }),
+      makeRequest(),
+      res,
+      vi.fn(),
+    )
+
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '30')
+    expect(res.body).toMatchObject({ status: 429, retryAfter: 30 })
+  })
+
+  it('lists the faulty fields of a validation error', () => {
+    const res = makeResponse()
+
+    errorHandler(
+      ValidationError.forField('id', 'Invalid deck ID'),
+      makeRequest(),
+      res,
+      vi.fn(),
+    )
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.body).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      errors: [{ field: 'id', message: 'Invalid deck ID' }],
+    })
+  })
+
+  it('hides the detail of an unexpected error', () => {
+    const res = makeResponse()
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    errorHandler(new Error('connection lost'), makeRequest(), res, vi.fn())
+
+    expect(res.status).toHaveBeenCalledWith(500)
+    expect(res.body).toMatchObject({
+      detail: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    })
+    consoleError.mockRestore()
+  })
+
+  it('answers a malformed JSON body with a 400', () => {
+    const res = makeResponse()
+    const error = Object.assign(new SyntaxError('Unexpected token'), {
+      type: 'entity.parse.failed',
+    })
+
+    errorHandler(error, makeRequest(), res, vi.fn())
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.body).toMatchObject({ code: 'INVALID_JSON' })
+  })
+
+  it('leaves the error to Express once the response has started', () => {
+    const res = makeResponse()
+    res.headersSent = true
+    const next = vi.fn()
+    const error = new Error('stream broken')
+
+    errorHandler(error, makeRequest(), res, next)
+
+    expect(next).toHaveBeenCalledWith(error)
+    expect(res.status).not.toHaveBeenCalled()
+  })
+})
+
+describe('notFoundHandler', () => {
+  it('passes a ROUTE_NOT_FOUND error to the error middleware', () => {
+    const next = vi.fn()
+
+    notFoundHandler(
+      { method: 'GET', baseUrl: '/api', path: '/nope' } as Request,
+      makeResponse(),
+      next,
+    )
+
+    expect(next.mock.calls[0][0]).toMatchObject({
+      status: 404,
+      code: 'ROUTE_NOT_FOUND',
+      message: 'Route GET /api/nope not found',
+    })
+  })
+})
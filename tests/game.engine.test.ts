@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { Game, HAND_SIZE } from '../src/sockets/game.engine'
+import { RoomManager } from '../src/sockets/room.manager'
+import { makeDeck, makePlayer } from './game.fixtures'
+
+describe('Game', () => {
+  it('lets the host start and draws up to a full hand', () => {
+    const game = new Game(
+      makePlayer(1, makeDeck(0)),
+      makePlayer(2, makeDeck(10)),
+    )
+
+    expect(game.currentPlayer.userId).toBe(1)
+    expect(game.drawCards(1)).toBe(HAND_SIZE)
+    expect(game.getPlayer(1)!.hand).toHaveLength(HAND_SIZE)
+    expect(() => game.drawCards(2)).toThrow('It is not your turn')
+  })
+
+  it('rejects invalid card indexes and a second active card', () => {
+    const game = new Game(
+      makePlayer(1, makeDeck(0)),
+      makePlayer(2, makeDeck(10)),
+    )
+    game.drawCards(1)
+
+    expect(() => game.playCard(1, 9)).toThrow('Invalid card index')
+    game.playCard(1, 0)
+    expect(() => game.playCard(1, 0)).toThrow('already have an active card')
+  })
+
+  it('knocks out the defender, scores and passes the turn', () => {
+    const game = new Game(
+      makePlayer(1, makeDeck(0, { attack: 60 })),
+      makePlayer(2, makeDeck(10, { hp: 50 })),
+    )
+    game.drawCards(1)
+    game.playCard(1, 0)
+    game.endTurn(1)
+    game.drawCards(2)
+    game.playCard(2, 0)
+    game.endTurn(2)
+
+    const result = game.attack(1)
+
+    expect(result).toEqual({ damage: 60, knockedOut: true })
+    expect(game.getPlayer(1)!.score).toBe(1)
+    expect(game.getPlayer(2)!.activeCard).toBeNull()
+    expect(game.currentPlayer.userId).toBe(2)
+  })
+
+  it('hides the opponent hand and deck in the player view', () => {
+    const game = new Game(
+      makePlayer(1, makeDeck(0)),
+      makePlayer(2, makeDeck(10)),
+    )
+    game.drawCards(1)
+
+    const state = game.getStateFor(2)
+
+    expect(state.opponent).not.toHaveProperty('hand')
+    expect(state.opponent).not.toHaveProperty('deck')
+    expect(state.opponent.handCount).toBe(HAND_SIZE)
+  })
+
+  it('only exposes public information to spectators', () => {
+    const game = new Game(
+      makePlayer(1, makeDeck(0)),
+      makePlayer(2, makeDeck(10)),
+    )
+    game.drawCards(1)
+    game.playCard(1, 0)
+
+    const [host] = game.getPublicState().players
+
+    expect(host).not.toHaveProperty('hand')
+    expect(host).not.toHaveProperty('deck')
+    expect(host.handCount).toBe(HAND_SIZE - 1)
+    expect(host.activeCard!.currentHp).toBe(50)
+    expect(host.deckCount).toBe(10 - HAND_SIZE)
+  })
+})
+
+describe('RoomManager', () => {
+  it('gives a disconnected player their seat back on a new socket', () => {
+    const rooms = new RoomManager()
+    const room = rooms.createRoom(makePlayer(1, makeDeck(0)))
+    rooms.startGame(room, makePlayer(2, makeDeck(10)))
+    const forfeit = setTimeout(() => {}, 60000)
+
+    rooms.markDisconnected(room, 1, forfeit)
+
+    expect(rooms.reconnectPlayer(room, 1, 'new-socket')).toBe(true)
+    expect(room.disconnected.size).toBe(0)
+    expect(rooms.getRoomsBySocket('new-socket')).toEqual([room])
+    expect(rooms.reconnectPlayer(room, 3, 'other-socket')).toBe(false)
+  })
+})
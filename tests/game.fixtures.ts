@@ -0,0 +1,34 @@
+import { Card, PokemonType, Rarity } from '../src/generated/prisma/client'
+import { GamePlayer } from '../src/sockets/game.engine'
+
+/**
+ * Cartes et joueurs partagés par les tests du moteur de jeu
+ */
+
+export const makeCard = (id: number, overrides: Partial<Card> = {}): Card => ({
+  id,
+  name: `Card ${id}`,
+  hp: 50,
+  attack: 20,
+  defense: 0,
+  type: PokemonType.Normal,
+  rarity: Rarity.COMMON,
+  pokedexNumber: id,
+  imgUrl: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+export const makePlayer = (userId: number, cards: Card[]): GamePlayer => ({
+  userId,
+  username: `user${userId}`,
+  socketId: `socket-${userId}`,
+  deckId: userId,
+  deckName: `deck${userId}`,
+  cards,
+})
+
+// Deck de 10 cartes dont les IDs commencent à offset
+export const makeDeck = (offset: number, overrides: Partial<Card> = {}) =>
+  Array.from({ length: 10 }, (_, i) => makeCard(offset + i, overrides))
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { Game, GamePlayer } from '../src/sockets/game.engine'
+import {
+  replayGame,
+  ReplayEvent,
+  UNKNOWN_PLAYER_ID,
+} from '../src/sockets/game.replay'
+import { makeDeck, makePlayer } from './game.fixtures'
+
+// Cartes de 30 PV et 40 d'attaque, comme dans les actions enregistrées ci-dessous
+const cardStats = { hp: 30, attack: 40 }
+const players: [GamePlayer, GamePlayer] = [
+  makePlayer(1, makeDeck(0, cardStats)),
+  makePlayer(2, makeDeck(10, cardStats)),
+]
+
+const events: ReplayEvent[] = [
+  { sequence: 0, turn: 1, userId: 1, type: 'drawCards', payload: {} },
+  {
+    sequence: 1,
+    turn: 1,
+    userId: 1,
+    type: 'playCard',
+    payload: { cardIndex: 0 },
+  },
+  { sequence: 2, turn: 1, userId: 1, type: 'endTurn', payload: null },
+  { sequence: 3, turn: 2, userId: 2, type: 'drawCards', payload: {} },
+  {
+    sequence: 4,
+    turn: 2,
+    userId: 2,
+    type: 'playCard',
+    payload: { cardIndex: 2 },
+  },
+  { sequence: 5, turn: 2, userId: 2, type: 'attack', payload: { damage: 40 } },
+]
+
+describe('replayGame', () => {
+  it('deals the same cards for the same seed', () => {
+    const first = new Game(players[0], players[1], 'seed')
+    const second = new Game(players[0], players[1], 'seed')
+
+    expect(second.players[0].deck).toEqual(first.players[0].deck)
+    expect(second.players[1].deck).toEqual(first.players[1].deck)
+  })
+
+  it('yields the state after each action, matching the live game', () => {
+    const live = new Game(players[0], players[1], 'seed')
+    live.drawCards(1)
+    live.playCard(1, 0)
+    live.endTurn(1)
+    live.drawCards(2)
+    live.playCard(2, 2)
+    live.attack(2)
+
+    const steps = [...replayGame('seed', players, events)]
+
+    expect(steps).toHaveLength(events.length + 1)
+    expect(steps[0].action).toBeNull()
+    expect(steps[0].state.players[0].hand).toEqual([])
+    expect(steps[events.length].state).toEqual(live.getFullState())
+    expect(steps[events.length].state.players[1].score).toBe(1)
+  })
+
+  it('replays the actions of a player whose account was deleted', () => {
+    const anonymous: [GamePlayer, GamePlayer] = [
+      players[0],
+      { ...players[1], userId: UNKNOWN_PLAYER_ID },
+    ]
+    const anonymousEvents = events.map((event) =>
+      event.userId === 2 ? { ...event, userId: null } : event,
+    )
+
+    const steps = [...replayGame('seed', anonymous, anonymousEvents)]
+
+    expect(steps).toHaveLength(events.length + 1)
+    expect(steps[events.length].state.players[1].score).toBe(1)
+  })
+
+  it('stops when the record does not match the game', () => {
+    const tampered = [
+      ...events.slice(0, 5),
+      { ...events[5], payload: { damage: 99 } },
+    ]
+
+    expect(() => [...replayGame('seed', players, tampered)]).toThrow(
+      'Replay diverged at action 5 (attack)',
+    )
+  })
+})
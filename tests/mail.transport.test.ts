@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { FileOutboxTransport } from '../src/mail/mail.transport'
+
+describe('FileOutboxTransport', () => {
+  let root: string
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('writes each email to its own JSON file, creating the outbox', async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'outbox-'))
+    const directory = path.join(root, 'outbox')
+    const transport = new FileOutboxTransport(directory, 'no-reply@tcg.local')
+
+    await transport.send({
+      to: 'red@example.com',
+      subject: 'Reset your password',
+      text: 'Hello red',
+    })
+    await transport.send({ to: 'blue@example.com', subject: 'Hi', text: '' })
+
+    const files = await readdir(directory)
+    expect(files).toHaveLength(2)
+    const mails = await Promise.all(
+      files.map(async (file) =>
+        JSON.parse(await readFile(path.join(directory, file), 'utf8')),
+      ),
+    )
+    const index = mails.findIndex((mail) => mail.to === 'red@example.com')
+    const mail = mails[index]
+    expect(mail).toMatchObject({
+      from: 'no-reply@tcg.local',
+      to: 'red@example.com',
+      subject: 'Reset your password',
+      text: 'Hello red',
+    })
+    expect(files[index]).toBe(`${Date.parse(mail.sentAt)}-${mail.id}.json`)
+  })
+})
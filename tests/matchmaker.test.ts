@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { Matchmaker, pairPlayers } from '../src/sockets/matchmaker'
+import {
+  InMemoryMatchmakingQueue,
+  QueueEntry,
+} from '../src/sockets/matchmaking.queue'
+
+const makeEntry = (
+  userId: number,
+  rating: number,
+  joinedAt = 0,
+): QueueEntry => ({
+  userId,
+  socketId: `socket-${userId}`,
+  rating,
+  joinedAt,
+  player: {
+    userId,
+    username: `user${userId}`,
+    socketId: `socket-${userId}`,
+    deckId: userId,
+    deckName: `deck${userId}`,
+    cards: [],
+  },
+})
+
+describe('Matchmaker', () => {
+  it('pairs each player with the closest rating within the accepted gap', () => {
+    const pairs = pairPlayers(
+      [
+        makeEntry(1, 1000),
+        makeEntry(2, 1300),
+        makeEntry(3, 1050),
+        makeEntry(4, 1280),
+      ],
+      0,
+    )
+
+    expect(pairs.map(([a, b]) => [a.userId, b.userId])).toEqual([
+      [1, 3],
+      [2, 4],
+    ])
+  })
+
+  it('widens the accepted gap the longer a player waits', () => {
+    const entries = [makeEntry(1, 1000, 0), makeEntry(2, 1300, 0)]
+
+    expect(pairPlayers(entries, 1000)).toHaveLength(0)
+    // 100 + 4 × 50 = 300 après 20 secondes d'attente
+    expect(pairPlayers(entries, 20000)).toHaveLength(1)
+  })
+
+  it('removes paired players from the queue and starts their game', async () => {
+    const queue = new InMemoryMatchmakingQueue()
+    const matches: number[][] = []
+    const matchmaker = new Matchmaker(queue, (a, b) => {
+      matches.push([a.userId, b.userId])
+    })
+
+    await queue.add(makeEntry(1, 1000, 0))
+    await queue.add(makeEntry(2, 1020, 10))
+    await queue.add(makeEntry(3, 2000, 20))
+    expect(await queue.add(makeEntry(1, 1000, 30))).toBe(false)
+
+    expect(await matchmaker.tick(100)).toBe(1)
+    expect(matches).toEqual([[1, 2]])
+    expect((await queue.list()).map((entry) => entry.userId)).toEqual([3])
+  })
+})
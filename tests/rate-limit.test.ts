@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Request, Response } from 'express'
+import { LoginGuard } from '../src/Authentification/login.guard'
+import {
+  byIp,
+  byUser,
+  rateLimit,
+} from '../src/rate-limit/rate-limit.middleware'
+import {
+  InMemoryRateLimitStore,
+  RateLimitStore,
+} from '../src/rate-limit/rate-limit.store'
+
+const makeResponse = () => {
+  const headers: Record<string, string> = {}
+  const res = {
+    set: vi.fn((values: Record<string, string>) => {
+      Object.assign(headers, values)
+      return res
+    }),
+  } as unknown as Response
+  return { res, headers }
+}
+
+describe('InMemoryRateLimitStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts hits until the window is over', async () => {
+    const store = new InMemoryRateLimitStore()
+
+    await store.increment('key', 1000)
+    expect(await store.increment('key', 1000)).toMatchObject({ count: 2 })
+
+    vi.advanceTimersByTime(1000)
+    expect(await store.get('key')).toBeUndefined()
+    expect(await store.increment('key', 1000)).toMatchObject({ count: 1 })
+
+    await store.reset('key')
+    expect(await store.get('key')).toBeUndefined()
+  })
+
+  it('purges the expired counters', async () => {
+    const store = new InMemoryRateLimitStore()
+    await store.increment('short', 1000)
+    await store.increment('long', 10 * 60 * 1000)
+
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    await store.increment('other', 1000)
+
+    const counters = (store as unknown as { counters: Map<string, unknown> })
+      .counters
+    expect([...counters.keys()]).toEqual(['long', 'other'])
+  })
+})
+
+describe('rateLimit', () => {
+  it('sets the RateLimit headers and rejects the requests beyond the limit', async () => {
+    const middleware = rateLimit({
+      name: 'test',
+      limit: 2,
+      windowMs: 60 * 1000,
+      key: byIp,
+      store: new InMemoryRateLimitStore(),
+    })
+    const req = { ip: '127.0.0.1' } as Request
+    const { res, headers } = makeResponse()
+    const next = vi.fn()
+
+    await middleware(req, res, next)
+    expect(headers).toEqual({
+      'RateLimit-Policy': '2;w=60',
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '60',
+    })
+
+    await middleware(req, res, next)
+    await middleware(req, res, next)
+    expect(headers['RateLimit-Remaining']).toBe('0')
+    expect(next).toHaveBeenNthCalledWith(1)
+    expect(next.mock.calls[2][0]).toMatchObject({
+      status: 429,
+      code: 'RATE_LIMITED',
+      retryAfter: 60,
+    })
+  })
+
+  it('skips the requests without key and the disabled limits', async () => {
+    const store = new InMemoryRateLimitStore()
+    const increment = vi.spyOn(store, 'increment')
+    const next = vi.fn()
+
+    await rateLimit({
+      name: 'user',
+      limit: 1,
+      windowMs: 1000,
+      key: byUser,
+      store,
+    })({} as Request, makeResponse().res, next)
+    await rateLimit({
+      name: 'off',
+      limit: 0,
+      windowMs: 1000,
+      key: byIp,
+      store,
+    })({ ip: '127.0.0.1' } as Request, makeResponse().res, next)
+
+    expect(increment).not.toHaveBeenCalled()
+    expect(next).toHaveBeenCalledTimes(2)
+    expect(byUser({ user: { userId: 7 } } as Request)).toBe('7')
+  })
+
+  it('passes the errors of the store to the error middleware', async () => {
+    const error = new Error('store unavailable')
+    const store = {
+      increment: vi.fn().mockRejectedValue(error),
+    } as unknown as RateLimitStore
+    const next = vi.fn()
+
+    await rateLimit({
+      name: 'test',
+      limit: 1,
+      windowMs: 1000,
+      key: byIp,
+      store,
+    })({ ip: '127.0.0.1' } as Request, makeResponse().res, next)
+
+    expect(next).toHaveBeenCalledWith(error)
+  })
+})
+
+describe('LoginGuard', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const makeGuard = () =>
+    new LoginGuard(new InMemoryRateLimitStore(), {
+      maxFailures: 3,
+      failureWindowMs: 15 * 60 * 1000,
+      lockoutBaseMs: 60 * 1000,
+      lockoutMaxMs: 3 * 60 * 1000,
+    })
+
+  const failTimes = async (guard: LoginGuard, times: number) => {
+    let duration = 0
+    for (let i = 0; i < times; i++) {
+      duration = await guard.recordFailure('Red@Example.com')
+    }
+    return duration
+  }
+
+  it('locks the account after repeated failures, with a growing backoff', async () => {
+    const guard = makeGuard()
+
+    expect(await failTimes(guard, 2)).toBe(0)
+    await expect(guard.assertNotLocked('red@example.com')).resolves.toBe(
+      undefined,
+    )
+    expect(await failTimes(guard, 1)).toBe(60 * 1000)
+    await expect(
+      guard.assertNotLocked(' red@example.com'),
+    ).rejects.toMatchObject({ code: 'ACCOUNT_LOCKED', retryAfter: 60 })
+
+    vi.advanceTimersByTime(60 * 1000)
+    await expect(guard.assertNotLocked('red@example.com')).resolves.toBe(
+      undefined,
+    )
+    expect(await failTimes(guard, 3)).toBe(2 * 60 * 1000)
+    expect(await failTimes(guard, 3)).toBe(3 * 60 * 1000)
+  })
+
+  it('forgets the failures after a successful sign-in', async () => {
+    const guard = makeGuard()
+
+    await failTimes(guard, 5)
+    vi.advanceTimersByTime(60 * 1000)
+    await guard.recordSuccess('red@example.com')
+
+    expect(await failTimes(guard, 2)).toBe(0)
+    expect(await failTimes(guard, 1)).toBe(60 * 1000)
+  })
+
+  it('lifts the lockout of an account, ex. after a password reset', async () => {
+    const guard = makeGuard()
+
+    await failTimes(guard, 3)
+    await expect(
+      guard.assertNotLocked('red@example.com'),
+    ).rejects.toMatchObject({ code: 'ACCOUNT_LOCKED' })
+
+    await guard.unlock('Red@Example.com')
+    await expect(guard.assertNotLocked('red@example.com')).resolves.toBe(
+      undefined,
+    )
+    expect(await failTimes(guard, 2)).toBe(0)
+    expect(await failTimes(guard, 1)).toBe(60 * 1000)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateMatchRatings,
+  DEFAULT_RATING,
+  expectedScore,
+  getKFactor,
+  PROVISIONAL_GAMES,
+  RATING_FLOOR,
+} from '../src/utils/rating.util'
+
+describe('rating.util', () => {
+  it('gives even odds to equal ratings', () => {
+    expect(expectedScore(DEFAULT_RATING, DEFAULT_RATING)).toBe(0.5)
+    expect(expectedScore(1400, 1000)).toBeCloseTo(0.909, 3)
+  })
+
+  it('moves provisional players faster', () => {
+    expect(getKFactor(0)).toBeGreaterThan(getKFactor(PROVISIONAL_GAMES))
+  })
+
+  it('transfers the same points between established players', () => {
+    const { winner, loser } = calculateMatchRatings(
+      { rating: 1000, gamesPlayed: 20 },
+      { rating: 1000, gamesPlayed: 20 },
+    )
+    expect(winner).toEqual({ ratingBefore: 1000, ratingAfter: 1012, delta: 12 })
+    expect(loser).toEqual({ ratingBefore: 1000, ratingAfter: 988, delta: -12 })
+  })
+
+  it('rewards an upset more than an expected win', () => {
+    const upset = calculateMatchRatings(
+      { rating: 1000, gamesPlayed: 20 },
+      { rating: 1400, gamesPlayed: 20 },
+    )
+    const expected = calculateMatchRatings(
+      { rating: 1400, gamesPlayed: 20 },
+      { rating: 1000, gamesPlayed: 20 },
+    )
+    expect(upset.winner.delta).toBeGreaterThan(expected.winner.delta)
+  })
+
+  it('never drops a rating below the floor', () => {
+    const { loser } = calculateMatchRatings(
+      { rating: 100, gamesPlayed: 0 },
+      { rating: RATING_FLOOR, gamesPlayed: 0 },
+    )
+    expect(loser.ratingAfter).toBe(RATING_FLOOR)
+  })
+})
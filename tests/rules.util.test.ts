@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { PokemonType } from '../src/generated/prisma/client'
+import {
+  calculateDamage,
+  getDamageMultiplier,
+  getWeakness,
+} from '../src/utils/rules.util'
+import { getTypeChart, parseTypeChart } from '../src/utils/type-chart'
+
+describe('rules.util', () => {
+  it('keeps the main weakness of each type', () => {
+    expect(getWeakness(PokemonType.Fire)).toBe(PokemonType.Water)
+    expect(getWeakness(PokemonType.Psychic)).toBe(PokemonType.Dark)
+  })
+
+  it('applies weaknesses, resistances and immunities', () => {
+    expect(getDamageMultiplier(PokemonType.Grass, PokemonType.Water)).toBe(2)
+    expect(getDamageMultiplier(PokemonType.Fire, PokemonType.Water)).toBe(0.5)
+    expect(getDamageMultiplier(PokemonType.Normal, PokemonType.Ghost)).toBe(0)
+    expect(getDamageMultiplier(PokemonType.Normal, PokemonType.Fire)).toBe(1)
+  })
+
+  it('deals no damage on immunity unless the chart asks for a minimum', () => {
+    expect(calculateDamage(50, PokemonType.Normal, PokemonType.Ghost)).toBe(0)
+
+    const chart = { ...getTypeChart(), minimumDamageOnImmunity: true }
+    expect(
+      calculateDamage(50, PokemonType.Normal, PokemonType.Ghost, 0, chart),
+    ).toBe(1)
+  })
+
+  it('keeps at least the minimum damage on resisted attacks', () => {
+    expect(calculateDamage(1, PokemonType.Fire, PokemonType.Water)).toBe(1)
+    expect(calculateDamage(41, PokemonType.Fire, PokemonType.Water)).toBe(20)
+  })
+
+  it('reduces damage with the defender defense', () => {
+    // Cloyster (180 de défense) encaisse mieux que Caterpie (35)
+    expect(
+      calculateDamage(55, PokemonType.Electric, PokemonType.Water, 180),
+    ).toBe(39)
+    expect(calculateDamage(55, PokemonType.Normal, PokemonType.Bug, 35)).toBe(
+      40,
+    )
+    expect(
+      calculateDamage(60, PokemonType.Normal, PokemonType.Normal, 100),
+    ).toBe(30)
+  })
+
+  it('rejects a chart referencing an unknown type', () => {
+    const chart = structuredClone(getTypeChart())
+    chart.types.Fire.weaknesses = ['Sound' as PokemonType]
+
+    expect(() => parseTypeChart(chart)).toThrow('unknown type "Sound"')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { getSchema } from '../src/docs/openapi'
+import { validateSchema } from '../src/utils/schema.util'
+
+const validate = (value: unknown, schemaName: string) =>
+  validateSchema(value, getSchema(schemaName), getSchema)
+
+describe('validateSchema', () => {
+  it('accepts a body matching the OpenAPI schema', () => {
+    expect(
+      validate(
+        { name: 'My Deck', cards: [1, 2, 3], format: 'standard' },
+        'DeckInput',
+      ),
+    ).toEqual([])
+  })
+
+  it('reports every faulty field with its path and keyword', () => {
+    expect(validate({ name: '', cards: [1, 'two', 3.5] }, 'DeckInput')).toEqual(
+      [
+        {
+          field: 'name',
+          message: 'name must be at least 1 character(s) long',
+          code: 'minLength',
+        },
+        {
+          field: 'cards[1]',
+          message: 'cards[1] must be an integer',
+          code: 'type',
+        },
+        {
+          field: 'cards[2]',
+          message: 'cards[2] must be an integer',
+          code: 'type',
+        },
+      ],
+    )
+  })
+
+  it('reports missing fields and invalid formats', () => {
+    expect(
+      validate({ email: 'red', password: 'password123' }, 'SignUpInput'),
+    ).toEqual([
+      {
+        field: 'username',
+        message: 'username is required',
+        code: 'required',
+      },
+      {
+        field: 'email',
+        message: 'email must be a valid email address',
+        code: 'format',
+      },
+    ])
+  })
+
+  it('rejects a body that is not an object', () => {
+    expect(validate(['refresh'], 'RefreshInput')).toEqual([
+      { field: 'body', message: 'body must be an object', code: 'type' },
+    ])
+  })
+
+  it('rejects an empty update', () => {
+    expect(validate({}, 'UserUpdateInput')).toEqual([
+      {
+        field: 'body',
+        message: 'body must contain at least 1 field(s)',
+        code: 'minProperties',
+      },
+    ])
+  })
+})
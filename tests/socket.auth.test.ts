@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { Socket } from 'socket.io'
+import { TokenService } from '../src/Authentification/token.service'
+import { UnauthorizedError } from '../src/errors/app.errors'
+import { Role } from '../src/generated/prisma/client'
+import { authenticateSocket } from '../src/sockets/socket.auth'
+
+vi.mock('../src/Authentification/token.service', () => ({
+  TokenService: { verifyAccessToken: vi.fn() },
+}))
+
+const verifyAccessToken = vi.mocked(TokenService.verifyAccessToken)
+
+const makeSocket = (
+  auth: Record<string, unknown> = {},
+  headers: Record<string, string> = {},
+) => ({ handshake: { auth, headers } }) as unknown as Socket
+
+describe('authenticateSocket', () => {
+  beforeEach(() => {
+    verifyAccessToken.mockReset()
+  })
+
+  it('refuses a connection without token', async () => {
+    const next = vi.fn()
+
+    await authenticateSocket(makeSocket(), next)
+
+    expect(next.mock.calls[0][0].message).toBe(
+      'Authentication token is missing',
+    )
+  })
+
+  it('refuses a connection with an invalid token', async () => {
+    const next = vi.fn()
+    verifyAccessToken.mockRejectedValue(new jwt.JsonWebTokenError('bad'))
+
+    await authenticateSocket(makeSocket({ token: 'not-a-jwt' }), next)
+
+    expect(next.mock.calls[0][0].message).toBe('Invalid authentication token')
+  })
+
+  it('refuses a connection with an expired token', async () => {
+    const next = vi.fn()
+    verifyAccessToken.mockRejectedValue(
+      new jwt.TokenExpiredError('jwt expired', new Date()),
+    )
+
+    await authenticateSocket(makeSocket({ token: 'expired' }), next)
+
+    expect(next.mock.calls[0][0].message).toBe(
+      'Authentication token has expired',
+    )
+  })
+
+  it('refuses a connection whose session was revoked', async () => {
+    const next = vi.fn()
+    verifyAccessToken.mockRejectedValue(
+      new UnauthorizedError('Session has been revoked', {
+        code: 'SESSION_REVOKED',
+      }),
+    )
+
+    await authenticateSocket(makeSocket({ token: 'revoked' }), next)
+
+    expect(next.mock.calls[0][0].message).toBe(
+      'Authentication token has been revoked',
+    )
+  })
+
+  it('hides the unexpected errors behind a generic message', async () => {
+    const next = vi.fn()
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    verifyAccessToken.mockRejectedValue(new Error('Database is unreachable'))
+
+    await authenticateSocket(makeSocket({ token: 'valid' }), next)
+
+    expect(next.mock.calls[0][0].message).toBe('Internal server error')
+    expect(consoleError).toHaveBeenCalled()
+    consoleError.mockRestore()
+  })
+
+  it('attaches the user from auth.token or the Authorization header', async () => {
+    const user = {
+      userId: 1,
+      email: 'red@example.com',
+      role: Role.USER,
+      sessionId: 'session-1',
+    }
+    verifyAccessToken.mockResolvedValue(user)
+
+    for (const socket of [
+      makeSocket({ token: 'valid' }),
+      makeSocket({}, { authorization: 'Bearer valid' }),
+    ]) {
+      const next = vi.fn()
+      await authenticateSocket(socket, next)
+
+      expect(verifyAccessToken).toHaveBeenLastCalledWith('valid')
+      expect(next).toHaveBeenCalledWith()
+      expect(socket.user).toEqual(user)
+    }
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { TradeSide } from '../src/generated/prisma/client'
+import {
+  diffOwnedCards,
+  groupTradeItems,
+  MAX_MESSAGE_LENGTH,
+  parseTradeCards,
+  parseTradeOffer,
+  toTradeItems,
+} from '../src/trade/trade.offer'
+
+describe('parseTradeCards', () => {
+  it('merges the duplicate card IDs, one copy by default', () => {
+    expect(
+      parseTradeCards(
+        [{ cardId: 25 }, { cardId: 4, quantity: 2 }, { cardId: 25 }],
+        'offeredCards',
+      ),
+    ).toEqual(
+      new Map([
+        [25, 2],
+        [4, 2],
+      ]),
+    )
+    expect(parseTradeCards(undefined, 'offeredCards')).toEqual(new Map())
+  })
+
+  it('rejects anything but an array of cards with positive quantities', () => {
+    for (const value of [
+      { cardId: 25 },
+      [null],
+      [{ cardId: '25' }],
+      [{ cardId: 25, quantity: 0 }],
+      [{ cardId: 25, quantity: 1.5 }],
+    ]) {
+      expect(() => parseTradeCards(value, 'requestedCards')).toThrow(
+        expect.objectContaining({
+          status: 400,
+          errors: [
+            {
+              field: 'requestedCards',
+              message:
+                'requestedCards must be an array of { cardId, quantity } with positive integers',
+            },
+          ],
+        }),
+      )
+    }
+  })
+})
+
+describe('parseTradeOffer', () => {
+  it('returns the cards of both sides and the message', () => {
+    expect(
+      parseTradeOffer(1, 2, {
+        offeredCards: [{ cardId: 25 }],
+        message: 'Deal?',
+      }),
+    ).toEqual({
+      offered: new Map([[25, 1]]),
+      requested: new Map(),
+      message: 'Deal?',
+    })
+  })
+
+  it('refuses a trade with oneself, an invalid message and an empty offer', () => {
+    const offeredCards = [{ cardId: 25 }]
+
+    expect(() => parseTradeOffer(1, 1, { offeredCards })).toThrow(
+      'You cannot trade with yourself',
+    )
+    for (const message of [42, 'a'.repeat(MAX_MESSAGE_LENGTH + 1)]) {
+      expect(() => parseTradeOffer(1, 2, { offeredCards, message })).toThrow(
+        `message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`,
+      )
+    }
+    expect(() =>
+      parseTradeOffer(1, 2, { offeredCards: [], requestedCards: [] }),
+    ).toThrow('A trade must include at least one card')
+  })
+})
+
+describe('trade items', () => {
+  it('stores the offered cards first and splits them back by side', () => {
+    const offered = new Map([[25, 2]])
+    const requested = new Map([
+      [4, 1],
+      [7, 3],
+    ])
+
+    const items = toTradeItems(offered, requested)
+
+    expect(items).toEqual([
+      { side: TradeSide.OFFERED, cardId: 25, quantity: 2 },
+      { side: TradeSide.REQUESTED, cardId: 4, quantity: 1 },
+      { side: TradeSide.REQUESTED, cardId: 7, quantity: 3 },
+    ])
+    expect(groupTradeItems(items)).toEqual({ offered, requested })
+  })
+})
+
+describe('diffOwnedCards', () => {
+  it('lists the cards owned in a smaller quantity than traded', () => {
+    const traded = new Map([
+      [25, 2],
+      [4, 1],
+      [7, 1],
+    ])
+    const owned = new Map([
+      [25, 1],
+      [4, 3],
+    ])
+
+    expect(diffOwnedCards(1, traded, owned)).toEqual([
+      { userId: 1, cardId: 25, quantity: 2, owned: 1 },
+      { userId: 1, cardId: 7, quantity: 1, owned: 0 },
+    ])
+    expect(diffOwnedCards(1, new Map([[4, 3]]), owned)).toEqual([])
+  })
+})
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { prismaMock } from './vitest.setup'
+import { TradeSide, TradeStatus } from '../src/generated/prisma/client'
+import { CollectionRepository } from '../src/collection/collection.repository'
+import { CollectionService } from '../src/collection/collection.service'
+import { DeckService } from '../src/deck/deck.service'
+import { TradeRepository } from '../src/trade/trade.repository'
+import { TradeService } from '../src/trade/trade.service'
+
+vi.mock('../src/trade/trade.repository', () => ({
+  TradeRepository: {
+    userExists: vi.fn(),
+    findCardsByIds: vi.fn(),
+    createTrade: vi.fn(),
+    getUserTrades: vi.fn(),
+    getTradeById: vi.fn(),
+    closeTrade: vi.fn(),
+  },
+}))
+vi.mock('../src/collection/collection.repository', () => ({
+  CollectionRepository: {
+    lockUser: vi.fn(),
+    removeCards: vi.fn(),
+    addCards: vi.fn(),
+  },
+}))
+vi.mock('../src/collection/collection.service', () => ({
+  CollectionService: { getOwnedQuantities: vi.fn() },
+}))
+vi.mock('../src/deck/deck.service', () => ({
+  DeckService: { flagDecksMissingCards: vi.fn() },
+}))
+
+const repository = vi.mocked(TradeRepository, true)
+const collection = vi.mocked(CollectionRepository, true)
+const getOwnedQuantities = vi.mocked(CollectionService.getOwnedQuantities)
+const flagDecksMissingCards = vi.mocked(DeckService.flagDecksMissingCards)
+const tx = {}
+
+// Red (1) propose 2 Pikachu (25) contre 1 Bulbizarre (1) de Blue (2)
+const pendingTrade = () =>
+  ({
+    id: 10,
+    proposerId: 1,
+    recipientId: 2,
+    status: TradeStatus.PENDING,
+    items: [
+      { side: TradeSide.OFFERED, cardId: 25, quantity: 2 },
+      { side: TradeSide.REQUESTED, cardId: 1, quantity: 1 },
+    ],
+  }) as unknown as Awaited<ReturnType<typeof TradeRepository.getTradeById>>
+
+// Chaque joueur possède 2 exemplaires des cartes demandées
+const ownTwoOfEach = () =>
+  getOwnedQuantities.mockImplementation(
+    async (_userId, cardIds) => new Map(cardIds.map((id) => [id, 2])),
+  )
+
+describe('TradeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.$transaction.mockImplementation(((
+      callback: (client: unknown) => unknown,
+    ) => callback(tx)) as never)
+    repository.getTradeById.mockResolvedValue(pendingTrade())
+    repository.closeTrade.mockResolvedValue(true)
+    repository.userExists.mockResolvedValue(true)
+    repository.findCardsByIds.mockImplementation(async (ids) =>
+      ids.map((id) => ({ id })),
+    )
+    flagDecksMissingCards.mockResolvedValue([])
+    ownTwoOfEach()
+  })
+
+  describe('proposeTrade', () => {
+    it('creates a pending trade with the cards of both sides', async () => {
+      repository.createTrade.mockResolvedValue({ id: 11 } as never)
+
+      await TradeService.proposeTrade(1, 2, {
+        offeredCards: [{ cardId: 25, quantity: 2 }],
+        requestedCards: [{ cardId: 1 }],
+      })
+
+      expect(repository.createTrade).toHaveBeenCalledWith(
+        { proposerId: 1, recipientId: 2, message: undefined },
+        pendingTrade()!.items,
+      )
+    })
+
+    it('checks the recipient, the cards and who owns them', async () => {
+      const offer = { offeredCards: [{ cardId: 25, quantity: 3 }] }
+
+      await expect(TradeService.proposeTrade(1, '2', offer)).rejects.toThrow(
+        'Recipient ID is required',
+      )
+
+      repository.userExists.mockResolvedValueOnce(false)
+      await expect(TradeService.proposeTrade(1, 2, offer)).rejects.toThrow(
+        'Recipient not found',
+      )
+
+      repository.findCardsByIds.mockResolvedValueOnce([])
+      await expect(
+        TradeService.proposeTrade(1, 2, offer),
+      ).rejects.toMatchObject({ code: 'UNKNOWN_CARDS' })
+
+      await expect(
+        TradeService.proposeTrade(1, 2, offer),
+      ).rejects.toMatchObject({
+        status: 409,
+        code: 'CARDS_NOT_OWNED',
+        missing: [{ userId: 1, cardId: 25, quantity: 3, owned: 2 }],
+      })
+      expect(repository.createTrade).not.toHaveBeenCalled()
+    })
+  })
+
+  it('lists the trades of a user and hides the trades of others', async () => {
+    repository.getUserTrades.mockResolvedValue([])
+
+    expect(await TradeService.getUserTrades(1, { direction: 'sent' })).toEqual(
+      [],
+    )
+    await expect(TradeService.getTradeById(10, 3)).rejects.toMatchObject({
+      status: 404,
+      code: 'TRADE_NOT_FOUND',
+    })
+  })
+
+  describe('acceptTrade', () => {
+    it('moves the cards and flags the decks missing them', async () => {
+      flagDecksMissingCards.mockResolvedValueOnce([7] as never)
+
+      const result = await TradeService.acceptTrade(10, 2)
+
+      expect(collection.lockUser.mock.calls.map(([id]) => id)).toEqual([1, 2])
+      expect(repository.closeTrade).toHaveBeenCalledWith(
+        10,
+        TradeStatus.ACCEPTED,
+        tx,
+      )
+      expect(collection.removeCards).toHaveBeenCalledWith(
+        1,
+        new Map([[25, 2]]),
+        tx,
+      )
+      expect(collection.addCards).toHaveBeenCalledWith(1, new Map([[1, 1]]), tx)
+      expect(flagDecksMissingCards.mock.calls).toEqual([
+        [1, [25], tx],
+        [2, [1], tx],
+      ])
+      expect(result.invalidatedDecks).toEqual([7])
+    })
+
+    it('checks the ownership again when the trade is accepted', async () => {
+      getOwnedQuantities.mockImplementation(
+        async (userId, cardIds) =>
+          new Map(cardIds.map((id) => [id, userId === 1 ? 1 : 2])),
+      )
+
+      await expect(TradeService.acceptTrade(10, 2)).rejects.toMatchObject({
+        code: 'CARDS_NOT_OWNED',
+        missing: [{ userId: 1, cardId: 25, quantity: 2, owned: 1 }],
+      })
+      expect(collection.removeCards).not.toHaveBeenCalled()
+    })
+
+    it('is reserved to the recipient of a pending trade', async () => {
+      await expect(TradeService.acceptTrade(10, 1)).rejects.toMatchObject({
+        status: 403,
+      })
+
+      repository.closeTrade.mockResolvedValueOnce(false)
+      await expect(TradeService.acceptTrade(10, 2)).rejects.toMatchObject({
+        status: 409,
+        code: 'TRADE_NOT_PENDING',
+      })
+      expect(collection.removeCards).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('declineTrade and cancelTrade', () => {
+    it('let only the recipient decline and the proposer cancel', async () => {
+      await TradeService.declineTrade(10, 2)
+      await TradeService.cancelTrade(10, 1)
+      expect(repository.closeTrade.mock.calls).toEqual([
+        [10, TradeStatus.DECLINED],
+        [10, TradeStatus.CANCELLED],
+      ])
+
+      await expect(TradeService.cancelTrade(10, 2)).rejects.toThrow(
+        'Only the proposer can cancel this trade',
+      )
+      await expect(TradeService.declineTrade(10, 1)).rejects.toThrow(
+        'Only the recipient can decline this trade',
+      )
+    })
+
+    it('refuse a trade that is no longer pending', async () => {
+      repository.closeTrade.mockResolvedValueOnce(false)
+
+      await expect(TradeService.cancelTrade(10, 1)).rejects.toMatchObject({
+        code: 'TRADE_NOT_PENDING',
+      })
+    })
+  })
+
+  describe('counterTrade', () => {
+    const counterOffer = {
+      offeredCards: [{ cardId: 1 }],
+      requestedCards: [{ cardId: 25 }],
+      message: 'One Pikachu only',
+    }
+
+    it('closes the trade and proposes the counter-offer to the proposer', async () => {
+      await TradeService.counterTrade(10, 2, counterOffer)
+
+      expect(repository.closeTrade).toHaveBeenCalledWith(
+        10,
+        TradeStatus.COUNTERED,
+        tx,
+      )
+      expect(repository.createTrade).toHaveBeenCalledWith(
+        {
+          proposerId: 2,
+          recipientId: 1,
+          message: 'One Pikachu only',
+          counterOfId: 10,
+        },
+        [
+          { side: TradeSide.OFFERED, cardId: 1, quantity: 1 },
+          { side: TradeSide.REQUESTED, cardId: 25, quantity: 1 },
+        ],
+        tx,
+      )
+    })
+
+    it('is reserved to the recipient of a pending trade', async () => {
+      await expect(
+        TradeService.counterTrade(10, 1, counterOffer),
+      ).rejects.toThrow('Only the recipient can counter this trade')
+
+      repository.closeTrade.mockResolvedValueOnce(false)
+      await expect(
+        TradeService.counterTrade(10, 2, counterOffer),
+      ).rejects.toMatchObject({ code: 'TRADE_NOT_PENDING' })
+      expect(repository.createTrade).not.toHaveBeenCalled()
+    })
+  })
+})